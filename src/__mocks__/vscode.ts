@@ -0,0 +1,346 @@
+/**
+ * Minimal stand-in for the `vscode` module in unit tests. The extension host
+ * API is not available outside VS Code, so vitest resolves `vscode` to this
+ * file (see vitest.config.ts). Only what the services touch is provided.
+ */
+
+/**
+ * Settings returned by `workspace.getConfiguration('cloak')`, keyed without
+ * the `cloak.` prefix. Tests set values here and clear them afterwards.
+ */
+export const configuration = new Map<string, unknown>();
+
+export class Disposable {
+    constructor(private readonly callOnDispose: () => void = () => undefined) {}
+
+    public static from(...disposables: Array<{ dispose(): unknown }>): Disposable {
+        return new Disposable(() => disposables.forEach(disposable => disposable.dispose()));
+    }
+
+    public dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners: Array<(event: T) => void> = [];
+
+    public readonly event = (listener: (event: T) => void): Disposable => {
+        this.listeners.push(listener);
+        return new Disposable(() => {
+            this.listeners = this.listeners.filter(other => other !== listener);
+        });
+    };
+
+    public fire(event: T): void {
+        [...this.listeners].forEach(listener => listener(event));
+    }
+
+    public dispose(): void {
+        this.listeners = [];
+    }
+}
+
+export class CancellationTokenSource {
+    private emitter = new EventEmitter<void>();
+
+    public readonly token = {
+        isCancellationRequested: false,
+        onCancellationRequested: this.emitter.event
+    };
+
+    public cancel(): void {
+        if (!this.token.isCancellationRequested) {
+            this.token.isCancellationRequested = true;
+            this.emitter.fire();
+        }
+    }
+
+    public dispose(): void {
+        this.emitter.dispose();
+    }
+}
+
+export class Uri {
+    private constructor(
+        public readonly scheme: string,
+        public readonly path: string,
+        public readonly query: string = ''
+    ) {}
+
+    public static file(path: string): Uri {
+        return new Uri('file', path);
+    }
+
+    public static parse(value: string): Uri {
+        const match = value.match(/^([a-z][\w+.-]*):(?:\/\/)?([^?]*)(?:\?(.*))?$/i);
+        return match ? new Uri(match[1], match[2], match[3]) : new Uri('file', value);
+    }
+
+    public static from(components: { scheme: string; path?: string; query?: string }): Uri {
+        return new Uri(components.scheme, components.path ?? '', components.query);
+    }
+
+    public static joinPath(base: Uri, ...segments: string[]): Uri {
+        return new Uri(base.scheme, [base.path.replace(/\/$/, ''), ...segments].join('/'), base.query);
+    }
+
+    public get fsPath(): string {
+        return this.path;
+    }
+
+    public toString(): string {
+        return `${this.scheme}://${this.path}${this.query ? `?${this.query}` : ''}`;
+    }
+}
+
+export class Position {
+    constructor(public readonly line: number, public readonly character: number) {}
+}
+
+export class Range {
+    public readonly start: Position;
+    public readonly end: Position;
+
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+        this.start = new Position(startLine, startCharacter);
+        this.end = new Position(endLine, endCharacter);
+    }
+
+    public contains(position: Position): boolean {
+        const isBefore = (a: Position, b: Position) => a.line < b.line || (a.line === b.line && a.character <= b.character);
+        return isBefore(this.start, position) && isBefore(position, this.end);
+    }
+}
+
+export enum DiagnosticSeverity {
+    Error = 0,
+    Warning = 1,
+    Information = 2,
+    Hint = 3
+}
+
+export class Diagnostic {
+    public source?: string;
+    public code?: string | number;
+
+    constructor(public range: Range, public message: string, public severity: DiagnosticSeverity = DiagnosticSeverity.Error) {}
+}
+
+export class RelativePattern {
+    constructor(public readonly base: unknown, public readonly pattern: string) {}
+}
+
+export class Location {
+    constructor(public readonly uri: Uri, public readonly range: Range) {}
+}
+
+export class ChatRequestTurn {
+    constructor(public readonly prompt: string, public readonly participant: string = 'cloak.securityGateway') {}
+}
+
+export class ChatResponseTurn {
+    constructor(
+        public readonly response: unknown[],
+        public readonly result: { metadata?: Record<string, unknown> } = {},
+        public readonly participant: string = 'cloak.securityGateway'
+    ) {}
+}
+
+export class MarkdownString {
+    constructor(public value: string = '') {}
+
+    public appendMarkdown(value: string): MarkdownString {
+        this.value += value;
+        return this;
+    }
+}
+
+export class Hover {
+    constructor(public readonly contents: MarkdownString, public readonly range?: Range) {}
+}
+
+export class ChatResponseMarkdownPart {
+    public value: MarkdownString;
+
+    constructor(value: string | MarkdownString) {
+        this.value = typeof value === 'string' ? new MarkdownString(value) : value;
+    }
+}
+
+export enum LanguageModelChatMessageRole {
+    User = 1,
+    Assistant = 2
+}
+
+export class LanguageModelChatMessage {
+    constructor(public role: LanguageModelChatMessageRole, public content: string) {}
+
+    public static User(content: string): LanguageModelChatMessage {
+        return new LanguageModelChatMessage(LanguageModelChatMessageRole.User, content);
+    }
+
+    public static Assistant(content: string): LanguageModelChatMessage {
+        return new LanguageModelChatMessage(LanguageModelChatMessageRole.Assistant, content);
+    }
+}
+
+export class LanguageModelError extends Error {
+    constructor(message: string, public readonly code: string = 'Unknown') {
+        super(message);
+    }
+}
+
+export enum ConfigurationTarget {
+    Global = 1,
+    Workspace = 2,
+    WorkspaceFolder = 3
+}
+
+export enum ViewColumn {
+    Active = -1,
+    Beside = -2,
+    One = 1
+}
+
+export enum FileType {
+    Unknown = 0,
+    File = 1,
+    Directory = 2,
+    SymbolicLink = 64
+}
+
+/**
+ * Files served by `workspace.fs` and `workspace.openTextDocument` and found
+ * by `workspace.findFiles`, keyed by path. Tests add files here.
+ */
+export const files = new Map<string, string>();
+
+export class FileSystemError extends Error {
+    constructor(message: string, public readonly code: string = 'Unknown') {
+        super(message);
+    }
+
+    public static FileNotFound(uri?: Uri): FileSystemError {
+        return new FileSystemError(`File not found: ${uri?.path ?? ''}`, 'FileNotFound');
+    }
+}
+
+const noopDisposable = () => new Disposable();
+
+export const workspace = {
+    isTrusted: true,
+    workspaceFolders: undefined as Array<{ uri: Uri; name: string; index: number }> | undefined,
+    textDocuments: [] as unknown[],
+    getConfiguration: () => ({
+        get: <T>(key: string, defaultValue?: T): T | undefined =>
+            configuration.has(key) ? configuration.get(key) as T : defaultValue,
+        has: (key: string) => configuration.has(key),
+        inspect: () => undefined,
+        update: async (key: string, value: unknown) => {
+            if (value === undefined) {
+                configuration.delete(key);
+            } else {
+                configuration.set(key, value);
+            }
+        }
+    }),
+    onDidChangeConfiguration: noopDisposable,
+    onDidGrantWorkspaceTrust: noopDisposable,
+    onDidOpenTextDocument: noopDisposable,
+    onDidChangeTextDocument: noopDisposable,
+    onDidCloseTextDocument: noopDisposable,
+    onDidSaveTextDocument: noopDisposable,
+    onDidChangeWorkspaceFolders: noopDisposable,
+    createFileSystemWatcher: () => ({
+        onDidChange: noopDisposable,
+        onDidCreate: noopDisposable,
+        onDidDelete: noopDisposable,
+        dispose: () => undefined
+    }),
+    getWorkspaceFolder: (uri: Uri) => workspace.workspaceFolders?.find(folder => uri.path.startsWith(`${folder.uri.path}/`)),
+    findFiles: async () => [...files.keys()].map(path => Uri.file(path)),
+    asRelativePath: (pathOrUri: string | Uri) => typeof pathOrUri === 'string' ? pathOrUri : pathOrUri.path,
+    openTextDocument: async (uri: Uri) => {
+        const content = files.get(uri.path);
+        if (content === undefined) {
+            throw FileSystemError.FileNotFound(uri);
+        }
+        const offsetAt = (position: Position) => content.split('\n').slice(0, position.line)
+            .reduce((offset, line) => offset + line.length + 1, position.character);
+        return { uri, getText: (range?: Range) => range ? content.slice(offsetAt(range.start), offsetAt(range.end)) : content };
+    },
+    fs: {
+        readFile: async (uri: Uri): Promise<Uint8Array> => {
+            const content = files.get(uri.path);
+            if (content === undefined) {
+                throw FileSystemError.FileNotFound(uri);
+            }
+            return new TextEncoder().encode(content);
+        },
+        stat: async (uri: Uri) => {
+            if (!files.has(uri.path)) {
+                throw FileSystemError.FileNotFound(uri);
+            }
+            return { type: FileType.File, ctime: 0, mtime: 0, size: files.get(uri.path)?.length ?? 0 };
+        },
+        writeFile: async (uri: Uri, content: Uint8Array) => {
+            files.set(uri.path, new TextDecoder().decode(content));
+        },
+        createDirectory: async () => undefined
+    }
+};
+
+/**
+ * Chat models offered to `lm.selectChatModels`. Tests add models here.
+ */
+export const chatModels: Array<{ vendor: string; family: string }> = [];
+
+export const lm = {
+    selectChatModels: async (selector: { vendor?: string; family?: string } = {}) => chatModels.filter(model =>
+        (!selector.vendor || model.vendor === selector.vendor) && (!selector.family || model.family === selector.family))
+};
+
+export const window = {
+    createOutputChannel: () => ({
+        append: () => undefined,
+        appendLine: () => undefined,
+        clear: () => undefined,
+        show: () => undefined,
+        hide: () => undefined,
+        dispose: () => undefined
+    }),
+    showInformationMessage: async () => undefined,
+    showWarningMessage: async () => undefined,
+    showErrorMessage: async () => undefined
+};
+
+export const languages = {
+    registerHoverProvider: noopDisposable,
+    createDiagnosticCollection: (name?: string) => {
+        const entries = new Map<string, Diagnostic[]>();
+        return {
+            name,
+            set: (uriOrEntries: Uri | Array<[Uri, Diagnostic[]]>, diagnostics?: Diagnostic[]) => {
+                const updates: Array<[Uri, Diagnostic[] | undefined]> = Array.isArray(uriOrEntries)
+                    ? uriOrEntries
+                    : [[uriOrEntries, diagnostics]];
+                updates.forEach(([uri, list]) => entries.set(uri.toString(), list ?? []));
+            },
+            get: (uri: Uri) => entries.get(uri.toString()),
+            delete: (uri: Uri) => {
+                entries.delete(uri.toString());
+            },
+            clear: () => entries.clear(),
+            forEach: (callback: (uri: Uri, diagnostics: Diagnostic[]) => void) => {
+                entries.forEach((diagnostics, uri) => callback(Uri.parse(uri), diagnostics));
+            },
+            dispose: () => entries.clear()
+        };
+    }
+};
+
+export const commands = {
+    executeCommand: async () => undefined,
+    registerCommand: noopDisposable
+};
@@ -1,12 +1,26 @@
 import * as vscode from 'vscode';
 import { ShieldStatusUI } from './ui/ShieldStatusUI';
+import { ScanReportUI } from './ui/ScanReportUI';
+import { ThreatDiagnosticsUI } from './ui/ThreatDiagnosticsUI';
+import { SignaturePackUI } from './ui/SignaturePackUI';
+import { RuleTestWorkbenchUI } from './ui/RuleTestWorkbenchUI';
 import { Interceptor } from './services/Interceptor';
 import { SecurityService } from './services/SecurityService';
 import { LocalStorageService } from './services/LocalStorageService';
 import { Gatekeeper } from './services/Gatekeeper';
 import { ConfigurationService } from './services/ConfigurationService';
 import { PerformanceMonitor } from './services/PerformanceMonitor';
-import { InterceptedPrompt } from './types';
+import { ModelForwarder } from './services/ModelForwarder';
+import { ResponseFilter } from './services/ResponseFilter';
+import { PiiDetector } from './services/PiiDetector';
+import { PromptSanitizer } from './services/PromptSanitizer';
+import { CustomRuleLoader, CustomRuleLoadResult } from './services/CustomRuleLoader';
+import { SignaturePackService } from './services/SignaturePackService';
+import { RuleTestRunner } from './services/RuleTestRunner';
+import { WorkspaceScanner } from './services/WorkspaceScanner';
+import { InstructionFileWatcher } from './services/InstructionFileWatcher';
+import { GitScanner, GitScanTarget } from './services/GitScanner';
+import { InterceptedPrompt, SecurityDecision, WorkspaceScanReport } from './types';
 
 /**
  * Global references for cleanup during deactivation
@@ -18,6 +32,18 @@ let localStorageService: LocalStorageService | undefined;
 let gatekeeper: Gatekeeper | undefined;
 let configurationService: ConfigurationService | undefined;
 let performanceMonitor: PerformanceMonitor | undefined;
+let modelForwarder: ModelForwarder | undefined;
+let responseFilter: ResponseFilter | undefined;
+let piiDetector: PiiDetector | undefined;
+let customRuleLoader: CustomRuleLoader | undefined;
+let signaturePackService: SignaturePackService | undefined;
+let signaturePackUI: SignaturePackUI | undefined;
+let ruleTestWorkbenchUI: RuleTestWorkbenchUI | undefined;
+let workspaceScanner: WorkspaceScanner | undefined;
+let scanReportUI: ScanReportUI | undefined;
+let threatDiagnosticsUI: ThreatDiagnosticsUI | undefined;
+let instructionFileWatcher: InstructionFileWatcher | undefined;
+let gitScanner: GitScanner | undefined;
 
 /**
  * Output channel for comprehensive logging
@@ -95,6 +121,26 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         securityService = new SecurityService(configurationService);
         log('SecurityService initialized');
         
+        // Load the installed signature packs
+        signaturePackService = new SignaturePackService(securityService);
+        for (const error of signaturePackService.initialize(context.globalState)) {
+            log(`Signature pack ${error.file} no longer verifies and was not loaded: ${error.message}`, 'warn');
+        }
+        signaturePackUI = new SignaturePackUI(signaturePackService);
+        log(`SignaturePackService initialized (${signaturePackService.listPacks().length} pack(s))`);
+        
+        // Load user-defined rules from .cloak/rules files and reload them on change
+        customRuleLoader = new CustomRuleLoader(securityService);
+        customRuleLoader.onRulesLoaded(reportCustomRules);
+        customRuleLoader.start().catch(error => log(`Failed to load custom rules: ${error}`, 'error'));
+        context.subscriptions.push(customRuleLoader);
+        log('CustomRuleLoader initialized');
+        
+        // Initialize the rule testing workbench and re-run open corpora when the rules change
+        ruleTestWorkbenchUI = new RuleTestWorkbenchUI(new RuleTestRunner(securityService));
+        context.subscriptions.push(ruleTestWorkbenchUI, customRuleLoader.onRulesLoaded(() => ruleTestWorkbenchUI?.refresh()));
+        log('RuleTestWorkbenchUI initialized');
+        
         // Initialize the Gatekeeper with local storage and configuration
         // Requirements: 4.4, 7.3 - Log all security decisions and store locally
         gatekeeper = new Gatekeeper();
@@ -105,14 +151,73 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         gatekeeper.updateConfig({
             blockThreshold: thresholds.blockThreshold,
             warnThreshold: thresholds.warnThreshold,
-            enableAuditLog: configurationService.isLoggingEnabled()
+            enableAuditLog: configurationService.isLoggingEnabled(),
+            sanitizePrompts: configurationService.isPromptSanitizingEnabled()
         });
+        gatekeeper.setPromptSanitizer(new PromptSanitizer(securityService));
         context.subscriptions.push(gatekeeper);
         log('Gatekeeper initialized');
         
+        // Initialize the Workspace Scanner and its report view
+        workspaceScanner = new WorkspaceScanner(securityService, configurationService);
+        scanReportUI = new ScanReportUI();
+        context.subscriptions.push(scanReportUI);
+        log('WorkspaceScanner initialized');
+        
+        // Initialize editor diagnostics for open documents
+        threatDiagnosticsUI = new ThreatDiagnosticsUI(workspaceScanner);
+        threatDiagnosticsUI.setEnabled(configurationService.isDiagnosticsEnabled());
+        context.subscriptions.push(threatDiagnosticsUI);
+        log('ThreatDiagnosticsUI initialized');
+        
+        // Initialize the watcher for AI agent instruction files
+        instructionFileWatcher = new InstructionFileWatcher(securityService, gatekeeper, configurationService);
+        instructionFileWatcher.setEnabled(configurationService.isInstructionFileWatchEnabled());
+        context.subscriptions.push(instructionFileWatcher);
+        log('InstructionFileWatcher initialized');
+        
+        // Initialize the Git Scanner for staged changes and incoming commits
+        gitScanner = new GitScanner(workspaceScanner, gatekeeper, configurationService);
+        gitScanner.setReportHandler((report, title) => {
+            presentScanReport(report, title).catch(error => log(`Failed to show git scan report: ${error}`, 'error'));
+        });
+        updateAutoGitScan(configurationService.isAutoGitScanEnabled());
+        context.subscriptions.push(gitScanner);
+        log('GitScanner initialized');
+        
+        // Initialize the PII Detector for outbound prompts
+        piiDetector = new PiiDetector({
+            actions: configurationService.getPiiActions(),
+            countries: configurationService.getPiiCountries()
+        });
+        gatekeeper.setPiiDetector(piiDetector);
+        log('PiiDetector initialized');
+        
+        // Initialize the Response Filter for model output
+        responseFilter = new ResponseFilter({
+            enabled: configurationService.isResponseFilterEnabled(),
+            exfiltrationAllowedDomains: configurationService.getExfiltrationAllowedDomains(),
+            exfiltrationBlockedDomains: configurationService.getExfiltrationBlockedDomains()
+        });
+        log('ResponseFilter initialized');
+        
+        // Initialize the Model Forwarder for allowed chat prompts
+        modelForwarder = new ModelForwarder(configurationService);
+        modelForwarder.setResponseFilter(responseFilter);
+        modelForwarder.setPiiDetector(piiDetector);
+        log('ModelForwarder initialized');
+        
         // Initialize the Interceptor component
         interceptor = new Interceptor();
         interceptor.setPerformanceMonitor(performanceMonitor);
+        interceptor.setGatekeeper(gatekeeper);
+        interceptor.setModelForwarder(modelForwarder);
+        interceptor.setConversationWindow(configurationService.getConversationWindow());
+        interceptor.setMaxConcurrentWorkers(configurationService.getMaxConcurrentAnalyses());
+        interceptor.setLocalStorageService(localStorageService);
+        interceptor.setConfigurationService(configurationService);
+        interceptor.setSecurityService(securityService);
+        interceptor.setStatusProvider(() => shieldStatusUI?.getStatus());
         context.subscriptions.push(interceptor);
         log('Interceptor initialized');
         
@@ -129,7 +234,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         // Set up prompt handler to route to SecurityService
         // Requirements: 1.2 - Route captured prompts to Security_Service
         interceptor.setPromptHandler(async (prompt: InterceptedPrompt) => {
-            await handlePromptAnalysis(prompt);
+            return handlePromptAnalysis(prompt);
         });
         log('Prompt handler configured');
         
@@ -172,18 +277,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
  * Requirements: 6.4 - Efficient queue management with performance tracking
  * 
  * @param prompt The intercepted prompt to analyze
+ * @returns The security decision, or undefined if no decision could be made
  */
-async function handlePromptAnalysis(prompt: InterceptedPrompt): Promise<void> {
+async function handlePromptAnalysis(prompt: InterceptedPrompt): Promise<SecurityDecision | undefined> {
     if (!securityService || !shieldStatusUI || !gatekeeper || !localStorageService) {
         log('Cannot analyze prompt: services not initialized', 'error');
-        return;
+        return undefined;
     }
     
     // Check if in degraded mode
     if (isDegradedMode) {
         log('Prompt analysis skipped: system in degraded mode', 'warn');
-        await handleDegradedModeAnalysis(prompt);
-        return;
+        return handleDegradedModeAnalysis(prompt);
     }
     
     log(`Starting analysis for prompt: ${prompt.id}`);
@@ -207,7 +312,10 @@ async function handlePromptAnalysis(prompt: InterceptedPrompt): Promise<void> {
         const decisionOpId = performanceMonitor?.startOperation('decision');
         
         // Enforce security policy through Gatekeeper
-        const decision = await gatekeeper.enforceSecurityPolicy(analysis, prompt);
+        // Chat prompts report the decision in the chat response instead of a notification
+        const decision = await gatekeeper.enforceSecurityPolicy(analysis, prompt, {
+            notifyUser: prompt.source !== 'chat'
+        });
         log(`Security decision for ${prompt.id}: ${decision.action}`);
         
         // End decision tracking
@@ -234,6 +342,8 @@ async function handlePromptAnalysis(prompt: InterceptedPrompt): Promise<void> {
         if (operationId) {
             performanceMonitor?.endOperation(operationId, true);
         }
+        
+        return decision;
     } catch (error) {
         // End analysis tracking (failure)
         if (operationId) {
@@ -244,7 +354,7 @@ async function handlePromptAnalysis(prompt: InterceptedPrompt): Promise<void> {
         log(`Analysis failed for ${prompt.id}: ${errorMessage}`, 'error');
         
         // Handle analysis errors with graceful degradation
-        await handleAnalysisError(error, prompt);
+        return handleAnalysisError(error, prompt);
     }
 }
 
@@ -287,8 +397,9 @@ function updateStatusFromAnalysis(analysis: import('./types').SecurityAnalysis):
  * 
  * @param error The error that occurred
  * @param prompt The prompt that was being analyzed
+ * @returns The degraded-mode decision, or undefined if no decision could be made
  */
-async function handleAnalysisError(error: unknown, prompt: InterceptedPrompt): Promise<void> {
+async function handleAnalysisError(error: unknown, prompt: InterceptedPrompt): Promise<SecurityDecision | undefined> {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
     // Check if this is a service connectivity issue
@@ -301,15 +412,16 @@ async function handleAnalysisError(error: unknown, prompt: InterceptedPrompt): P
         enterDegradedMode(errorMessage);
         
         // Handle the prompt in degraded mode
-        await handleDegradedModeAnalysis(prompt);
-    } else {
-        // For other errors, just update status
-        shieldStatusUI?.updateStatus({
-            state: 'error',
-            message: errorMessage,
-            serviceHealth: 'degraded'
-        });
+        return handleDegradedModeAnalysis(prompt);
     }
+    
+    // For other errors, just update status
+    shieldStatusUI?.updateStatus({
+        state: 'error',
+        message: errorMessage,
+        serviceHealth: 'degraded'
+    });
+    return undefined;
 }
 
 /**
@@ -317,16 +429,17 @@ async function handleAnalysisError(error: unknown, prompt: InterceptedPrompt): P
  * Uses local pattern detection only.
  * 
  * @param prompt The prompt to analyze
+ * @returns The security decision based on local detection
  */
-async function handleDegradedModeAnalysis(prompt: InterceptedPrompt): Promise<void> {
+async function handleDegradedModeAnalysis(prompt: InterceptedPrompt): Promise<SecurityDecision | undefined> {
     if (!securityService || !gatekeeper || !localStorageService || !shieldStatusUI) {
-        return;
+        return undefined;
     }
     
     log(`Degraded mode analysis for ${prompt.id}`, 'warn');
     
     // Use local pattern detection only
-    const localDetection = securityService.detectThreatPatterns(prompt.content);
+    const localDetection = securityService.detectPromptThreats(prompt);
     
     // Create a minimal analysis result
     const analysis: import('./types').SecurityAnalysis = {
@@ -336,9 +449,14 @@ async function handleDegradedModeAnalysis(prompt: InterceptedPrompt): Promise<vo
         reasoning: 'Local pattern detection only (SLM unavailable)',
         processingTime: 0
     };
+    if (localDetection.contributingTurns.length > 0) {
+        analysis.contributingTurns = localDetection.contributingTurns;
+    }
     
     // Enforce security policy
-    const decision = await gatekeeper.enforceSecurityPolicy(analysis, prompt);
+    const decision = await gatekeeper.enforceSecurityPolicy(analysis, prompt, {
+        notifyUser: prompt.source !== 'chat'
+    });
     
     // Store result
     await localStorageService.storeAnalysisResult(prompt, analysis, decision.action);
@@ -350,6 +468,8 @@ async function handleDegradedModeAnalysis(prompt: InterceptedPrompt): Promise<vo
         lastAnalysis: new Date(),
         serviceHealth: 'degraded'
     });
+    
+    return decision;
 }
 
 /**
@@ -484,6 +604,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
         if (localStorageService) {
             const stats = localStorageService.getStatistics();
             const auditLog = localStorageService.exportAuditLog();
+            const piiCounts = Object.entries(stats.piiCounts).map(([type, count]) => `${type} ${count}`).join(', ');
             
             // Create a new document with the audit log
             vscode.workspace.openTextDocument({
@@ -494,7 +615,9 @@ function registerCommands(context: vscode.ExtensionContext): void {
                         `- Analysis Results: ${stats.totalAnalysisResults}\n` +
                         `- Blocked: ${stats.blockedCount}\n` +
                         `- Allowed: ${stats.allowedCount}\n` +
-                        `- Warned: ${stats.warnCount}\n\n` +
+                        `- Warned: ${stats.warnCount}\n` +
+                        `- Sanitized: ${stats.sanitizeCount}\n` +
+                        `- Personal Data Found: ${piiCounts}\n\n` +
                         `Audit Log:\n${auditLog}`,
                 language: 'json'
             }).then(doc => {
@@ -520,6 +643,47 @@ function registerCommands(context: vscode.ExtensionContext): void {
     });
     context.subscriptions.push(testConnectivityCommand);
 
+    // Register the workspace scan command
+    const scanWorkspaceCommand = vscode.commands.registerCommand('cloak.scanWorkspace', async () => {
+        await runWorkspaceScan();
+    });
+    context.subscriptions.push(scanWorkspaceCommand);
+
+    // Register the git scan command
+    const scanGitChangesCommand = vscode.commands.registerCommand('cloak.scanGitChanges', async () => {
+        await runGitScan();
+    });
+    context.subscriptions.push(scanGitChangesCommand);
+
+    // Register the signature pack commands
+    const importSignaturePackCommand = vscode.commands.registerCommand('cloak.importSignaturePack', async () => {
+        await signaturePackUI?.importPack();
+        ruleTestWorkbenchUI?.refresh();
+    });
+    const listSignaturePacksCommand = vscode.commands.registerCommand('cloak.listSignaturePacks', async () => {
+        await signaturePackUI?.showPacks();
+    });
+    const toggleSignaturePacksCommand = vscode.commands.registerCommand('cloak.toggleSignaturePacks', async () => {
+        await signaturePackUI?.togglePacks();
+        ruleTestWorkbenchUI?.refresh();
+    });
+    const removeSignaturePackCommand = vscode.commands.registerCommand('cloak.removeSignaturePack', async () => {
+        await signaturePackUI?.removePack();
+        ruleTestWorkbenchUI?.refresh();
+    });
+    context.subscriptions.push(
+        importSignaturePackCommand,
+        listSignaturePacksCommand,
+        toggleSignaturePacksCommand,
+        removeSignaturePackCommand
+    );
+
+    // Register the rule testing workbench command
+    const testRulesCommand = vscode.commands.registerCommand('cloak.testRules', async () => {
+        await ruleTestWorkbenchUI?.open();
+    });
+    context.subscriptions.push(testRulesCommand);
+
     // Register the open settings command
     const openSettingsCommand = vscode.commands.registerCommand('cloak.openSettings', () => {
         vscode.commands.executeCommand('workbench.action.openSettings', '@ext:cloak-security.cloak-security-gateway');
@@ -527,6 +691,177 @@ function registerCommands(context: vscode.ExtensionContext): void {
     context.subscriptions.push(openSettingsCommand);
 }
 
+/**
+ * Scans the workspace for indirect prompt injection and shows the report.
+ * The user chooses whether the SLM classifies each file in addition to
+ * local pattern detection.
+ */
+async function runWorkspaceScan(): Promise<void> {
+    if (!workspaceScanner || !scanReportUI) {
+        return;
+    }
+    
+    if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+        vscode.window.showWarningMessage('🛡️ Cloak: Open a folder to scan it for prompt injection.');
+        return;
+    }
+    
+    const mode = await vscode.window.showQuickPick(
+        [
+            { label: '$(zap) Local patterns', description: 'Fast', useSlm: false },
+            { label: '$(hubot) Local patterns + SLM', description: 'Slower, classifies every file with the local SLM', useSlm: true }
+        ],
+        { title: '🛡️ Cloak Workspace Scan', placeHolder: 'Select how files are analyzed' }
+    );
+    if (!mode) {
+        return;
+    }
+    
+    let useSlm = mode.useSlm;
+    if (useSlm && (isDegradedMode || !(await securityService?.isServiceAvailable()))) {
+        useSlm = false;
+        log('Workspace scan uses local patterns only: SLM unavailable', 'warn');
+        vscode.window.showWarningMessage('🛡️ Cloak: The SLM is unavailable, scanning with local patterns only.');
+    }
+    
+    const scanner = workspaceScanner;
+    const report = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: '🛡️ Cloak: Scanning workspace',
+            cancellable: true
+        },
+        (progress, token) => scanner.scanWorkspace({ useSlm }, progress, token)
+    );
+    
+    log(`Workspace scan finished in ${report.duration}ms: ${scanReportUI.buildSummary(report)}`);
+    await presentScanReport(report, '🛡️ Cloak Workspace Scan', true);
+}
+
+/**
+ * Scans staged changes or commits of a git repository for prompt injection
+ * and shows the report.
+ */
+async function runGitScan(): Promise<void> {
+    if (!gitScanner || !scanReportUI) {
+        return;
+    }
+    
+    const repositories = await gitScanner.getRepositories();
+    if (repositories.length === 0) {
+        vscode.window.showWarningMessage('🛡️ Cloak: No git repository found. Open a folder under git version control to scan its changes.');
+        return;
+    }
+    
+    const repository = repositories.length === 1
+        ? repositories[0]
+        : (await vscode.window.showQuickPick(
+            repositories.map(repo => ({ label: vscode.workspace.asRelativePath(repo.rootUri), repo })),
+            { title: '🛡️ Cloak Git Scan', placeHolder: 'Select a repository' }
+        ))?.repo;
+    if (!repository) {
+        return;
+    }
+    
+    const targets: Array<vscode.QuickPickItem & { target: GitScanTarget; progressTitle: string }> = [
+        { label: '$(diff-added) Staged changes', description: 'Lines added in the staged diff', target: 'staged', progressTitle: 'staged changes' },
+        { label: '$(cloud-download) Incoming commits', description: 'Fetched commits not yet merged into the current branch', target: 'incoming', progressTitle: 'incoming commits' },
+        { label: '$(git-commit) Recent commits', description: 'The latest commits on the current branch', target: 'recent', progressTitle: 'recent commits' }
+    ];
+    const selected = await vscode.window.showQuickPick(targets, {
+        title: '🛡️ Cloak Git Scan',
+        placeHolder: 'Select what to scan'
+    });
+    if (!selected) {
+        return;
+    }
+    
+    const scanner = gitScanner;
+    try {
+        const report = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `🛡️ Cloak: Scanning ${selected.progressTitle}`,
+                cancellable: true
+            },
+            (_progress, token) => scanner.scan(repository, selected.target, token)
+        );
+        
+        log(`Git scan (${selected.target}) finished in ${report.duration}ms: ${scanReportUI.buildSummary(report)}`);
+        await presentScanReport(report, '🛡️ Cloak Git Scan', true);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        log(`Git scan (${selected.target}) failed: ${message}`, 'error');
+        vscode.window.showErrorMessage(`🛡️ Cloak: Git scan failed - ${message}`);
+    }
+}
+
+/**
+ * Shows the summary of a scan report with an option to open the findings.
+ * 
+ * @param report The scan report
+ * @param title Title of the findings list
+ * @param confirmClean Whether a report without findings is announced as well
+ */
+async function presentScanReport(report: WorkspaceScanReport, title: string, confirmClean: boolean = false): Promise<void> {
+    if (!scanReportUI) {
+        return;
+    }
+    
+    const summary = scanReportUI.buildSummary(report);
+    
+    if (report.results.length === 0) {
+        if (confirmClean) {
+            vscode.window.showInformationMessage(`🛡️ Cloak: No prompt injection found (${summary}).`);
+        }
+        return;
+    }
+    
+    const selection = await vscode.window.showWarningMessage(`${title}: ${summary}.`, 'Show Report');
+    if (selection === 'Show Report') {
+        scanReportUI.show(report, title);
+    }
+}
+
+/**
+ * Logs the rules loaded from the rules files and reports their problems.
+ * 
+ * @param result The rules and problems of the last load
+ */
+function reportCustomRules(result: CustomRuleLoadResult): void {
+    if (result.files.length === 0) {
+        return;
+    }
+    
+    log(`Loaded ${result.rules.length} custom rule(s) from ${result.files.join(', ')}`);
+    for (const error of result.errors) {
+        const rule = error.rule ? ` rule ${error.rule}` : '';
+        log(`Custom rules ${error.file}${rule}: ${error.message}`, 'warn');
+    }
+    
+    if (result.errors.length > 0) {
+        vscode.window.showWarningMessage(
+            `🛡️ Cloak: ${result.errors.length} problem(s) in custom rules files. Rules with problems are skipped.`,
+            'Show Problems'
+        ).then(selection => {
+            if (selection === 'Show Problems') {
+                vscode.commands.executeCommand('workbench.actions.view.problems');
+            }
+        });
+    }
+}
+
+/**
+ * Starts or stops automatic git scans and reports if Git is unavailable.
+ */
+function updateAutoGitScan(enabled: boolean): void {
+    gitScanner?.setAutoScan(enabled).then(available => {
+        if (!available) {
+            log('Automatic git scans are unavailable: the Git extension is missing or disabled', 'warn');
+        }
+    }).catch(error => log(`Failed to update automatic git scans: ${error}`, 'error'));
+}
+
 /**
  * Handles configuration changes and updates services accordingly.
  * Requirements: 8.4 - Apply changes without VS Code restart
@@ -549,6 +884,94 @@ function handleConfigurationChange(affectedKeys: string[]): void {
         }
     }
     
+    // Update SecurityService if chunked analysis settings changed
+    if (affectedKeys.includes('maxPromptLength') || affectedKeys.includes('oversizedPromptPolicy')) {
+        securityService?.updateMaxPromptLength(configurationService.getMaxPromptLength());
+        securityService?.updateOversizedPromptPolicy(configurationService.getOversizedPromptPolicy());
+    }
+    
+    // Update SecurityService if the typoglycemia keywords changed
+    if (affectedKeys.includes('sensitiveKeywords')) {
+        securityService?.updateSensitiveKeywords(configurationService.getSensitiveKeywords());
+    }
+    
+    // Update SecurityService if language packs were enabled or disabled
+    if (affectedKeys.includes('languagePacks')) {
+        securityService?.updateLanguagePacks(configurationService.getLanguagePacks());
+    }
+    
+    // Update SecurityService and ResponseFilter if the exfiltration domain lists changed
+    if (affectedKeys.includes('exfiltrationAllowedDomains') || affectedKeys.includes('exfiltrationBlockedDomains')) {
+        securityService?.updateExfiltrationDomains(
+            configurationService.getExfiltrationAllowedDomains(),
+            configurationService.getExfiltrationBlockedDomains()
+        );
+        responseFilter?.updateConfig({
+            exfiltrationAllowedDomains: configurationService.getExfiltrationAllowedDomains(),
+            exfiltrationBlockedDomains: configurationService.getExfiltrationBlockedDomains()
+        });
+    }
+    
+    // Update PiiDetector if the PII actions or countries changed
+    if (affectedKeys.includes('piiActions') || affectedKeys.includes('piiCountries')) {
+        piiDetector?.updateConfig({
+            actions: configurationService.getPiiActions(),
+            countries: configurationService.getPiiCountries()
+        });
+    }
+    
+    // Update WorkspaceScanner if the file size limit changed
+    if (affectedKeys.includes('scanMaxFileSize')) {
+        workspaceScanner?.updateMaxFileSize(configurationService.getScanMaxFileSize());
+        instructionFileWatcher?.updateMaxFileSize(configurationService.getScanMaxFileSize());
+        gitScanner?.updateMaxFileSize(configurationService.getScanMaxFileSize());
+    }
+    
+    // Update editor diagnostics if they were enabled or disabled
+    if (affectedKeys.includes('enableDiagnostics')) {
+        threatDiagnosticsUI?.setEnabled(configurationService.isDiagnosticsEnabled());
+    }
+    
+    // Start or stop watching instruction files
+    if (affectedKeys.includes('watchInstructionFiles')) {
+        instructionFileWatcher?.setEnabled(configurationService.isInstructionFileWatchEnabled());
+    }
+    
+    // Start or stop automatic git scans
+    if (affectedKeys.includes('autoGitScan')) {
+        updateAutoGitScan(configurationService.isAutoGitScanEnabled());
+    }
+    
+    // Update ModelForwarder if the target model changed
+    if (affectedKeys.includes('targetModelVendor') || affectedKeys.includes('targetModelFamily')) {
+        modelForwarder?.updateSelector(configurationService.getTargetModelSelector());
+    }
+    
+    // Update ModelForwarder if secret redaction was enabled or disabled
+    if (affectedKeys.includes('redactSecrets')) {
+        modelForwarder?.updateSecretRedaction(configurationService.isSecretRedactionEnabled());
+    }
+    
+    // Update ResponseFilter if it was enabled or disabled
+    if (affectedKeys.includes('enableResponseFilter')) {
+        responseFilter?.updateConfig({ enabled: configurationService.isResponseFilterEnabled() });
+    }
+    
+    // Update Interceptor if the conversation window changed
+    if (affectedKeys.includes('conversationWindow')) {
+        interceptor?.setConversationWindow(configurationService.getConversationWindow());
+    }
+    
+    // Update Interceptor if the number of concurrent analyses changed
+    if (affectedKeys.includes('maxConcurrentAnalyses')) {
+        interceptor?.setMaxConcurrentWorkers(configurationService.getMaxConcurrentAnalyses());
+    }
+    
+    // Update Gatekeeper if prompt sanitizing was enabled or disabled
+    if (affectedKeys.includes('sanitizePrompts')) {
+        gatekeeper?.updateConfig({ sanitizePrompts: configurationService.isPromptSanitizingEnabled() });
+    }
+    
     // Update Gatekeeper if threat sensitivity or logging changed
     if (affectedKeys.includes('threatSensitivity') || affectedKeys.includes('enableLogging')) {
         if (gatekeeper) {
@@ -618,6 +1041,18 @@ export function deactivate(): void {
     gatekeeper = undefined;
     configurationService = undefined;
     performanceMonitor = undefined;
+    modelForwarder = undefined;
+    responseFilter = undefined;
+    piiDetector = undefined;
+    customRuleLoader = undefined;
+    signaturePackService = undefined;
+    signaturePackUI = undefined;
+    ruleTestWorkbenchUI = undefined;
+    workspaceScanner = undefined;
+    scanReportUI = undefined;
+    threatDiagnosticsUI = undefined;
+    instructionFileWatcher = undefined;
+    gitScanner = undefined;
     outputChannel = undefined;
     isDegradedMode = false;
 }
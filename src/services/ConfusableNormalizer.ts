@@ -0,0 +1,180 @@
+import { TextLocation, ThreatPattern } from '../types';
+
+/**
+ * Text folded to its skeleton, with the original range of every character
+ */
+export interface NormalizedText {
+    text: string;
+    /** Original offset where the code point behind each UTF-16 unit of `text` starts */
+    sourceStarts: number[];
+    /** Original offset where the code point behind each UTF-16 unit of `text` ends */
+    sourceEnds: number[];
+}
+
+/**
+ * Word that mixes letters of scripts that are easily confused with each other
+ */
+export interface MixedScriptWord {
+    word: string;
+    start: number;
+    end: number;
+    scripts: string[];
+    normalized: string;
+}
+
+/**
+ * Characters that look like Latin letters, mapped to those letters.
+ * A subset of the Unicode TR39 confusables data (confusables.txt) covering the
+ * Cyrillic, Greek, Armenian, Cherokee and Latin lookalikes used in attacks.
+ * Keys are decomposed characters: accented letters, fullwidth and mathematical
+ * letters are handled by compatibility decomposition first.
+ */
+const CONFUSABLES: Record<string, string> = {
+    // Cyrillic
+    'а': 'a', 'с': 'c', 'ԁ': 'd', 'е': 'e', 'һ': 'h', 'і': 'i', 'ј': 'j',
+    'ӏ': 'l', 'о': 'o', 'р': 'p', 'ԛ': 'q', 'ѕ': 's', 'ԝ': 'w', 'х': 'x', 'у': 'y', 'ү': 'y',
+    'А': 'A', 'В': 'B', 'С': 'C', 'Ԁ': 'D', 'Е': 'E', 'Ԍ': 'G', 'Н': 'H', 'І': 'I', 'Ј': 'J', 'К': 'K',
+    'Ӏ': 'l', 'М': 'M', 'О': 'O', 'Р': 'P', 'Ԛ': 'Q', 'Ѕ': 'S', 'Т': 'T', 'Х': 'X', 'Ү': 'Y', 'Ԝ': 'W',
+    // Greek
+    'α': 'a', 'ϲ': 'c', 'ι': 'i', 'ϳ': 'j', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'χ': 'x', 'γ': 'y',
+    'Α': 'A', 'Β': 'B', 'Ϲ': 'C', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N',
+    'Ο': 'O', 'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X',
+    // Armenian
+    'ց': 'g', 'հ': 'h', 'ո': 'n', 'օ': 'o', 'զ': 'q', 'ս': 'u', 'Օ': 'O', 'Ս': 'U', 'Տ': 'S',
+    // Cherokee
+    'Ꭺ': 'A', 'Ᏼ': 'B', 'Ꮯ': 'C', 'Ꭼ': 'E', 'Ꮐ': 'G', 'Ꮋ': 'H', 'Ꭻ': 'J', 'Ꮶ': 'K', 'Ꮇ': 'M', 'Ꮲ': 'P',
+    'Ꮪ': 'S', 'Ꭲ': 'T', 'Ꮩ': 'V', 'Ꮃ': 'W', 'Ꮓ': 'Z',
+    // Latin lookalikes
+    'ı': 'i', 'ɑ': 'a', 'ɡ': 'g', 'ɩ': 'i', 'ɪ': 'i'
+};
+
+/**
+ * Scripts whose letters are easily mistaken for each other. Words that mix
+ * other scripts, such as Japanese kanji and kana, are common and not flagged.
+ */
+const CONFUSABLE_SCRIPTS: Array<[string, RegExp]> = [
+    ['Latin', /\p{Script=Latin}/u],
+    ['Cyrillic', /\p{Script=Cyrillic}/u],
+    ['Greek', /\p{Script=Greek}/u],
+    ['Armenian', /\p{Script=Armenian}/u],
+    ['Cherokee', /\p{Script=Cherokee}/u]
+];
+
+/**
+ * ConfusableNormalizer folds lookalike characters to the Latin letters they
+ * imitate, so "іgnore" written with a Cyrillic "і" matches the same patterns
+ * as "ignore", and flags words that mix scripts.
+ *
+ * The skeleton follows Unicode TR39: compatibility decomposition (the NFKC part,
+ * which also folds fullwidth and mathematical letters), confusable mapping, and
+ * removal of combining marks and default-ignorable characters such as zero-width spaces.
+ */
+export class ConfusableNormalizer {
+    /**
+     * Folds a text to its skeleton.
+     *
+     * @param content The original text
+     * @returns The skeleton with the original range of each character
+     */
+    public normalize(content: string): NormalizedText {
+        let text = '';
+        const sourceStarts: number[] = [];
+        const sourceEnds: number[] = [];
+        let offset = 0;
+
+        for (const character of content) {
+            const start = offset;
+            offset += character.length;
+
+            const folded = this.fold(character);
+            text += folded;
+            for (let i = 0; i < folded.length; i++) {
+                sourceStarts.push(start);
+                sourceEnds.push(offset);
+            }
+        }
+
+        return { text, sourceStarts, sourceEnds };
+    }
+
+    /**
+     * Maps a location in the skeleton back to the original text.
+     *
+     * @param normalized The skeleton
+     * @param location Location in the skeleton
+     * @returns Location in the original text
+     */
+    public locate(normalized: NormalizedText, location: TextLocation): TextLocation {
+        if (location.end <= location.start) {
+            const offset = normalized.sourceStarts[location.start] ?? normalized.sourceEnds[normalized.sourceEnds.length - 1] ?? 0;
+            return { start: offset, end: offset };
+        }
+        return {
+            start: normalized.sourceStarts[location.start],
+            end: normalized.sourceEnds[location.end - 1]
+        };
+    }
+
+    /**
+     * Finds words that mix letters of confusable scripts.
+     *
+     * @param content The original text
+     * @returns Mixed-script words in order of their position
+     */
+    public findMixedScriptWords(content: string): MixedScriptWord[] {
+        const words: MixedScriptWord[] = [];
+
+        for (const match of content.matchAll(/[\p{L}\p{M}]+/gu)) {
+            const word = match[0];
+            const scripts = CONFUSABLE_SCRIPTS
+                .filter(([, regex]) => regex.test(word))
+                .map(([script]) => script);
+
+            if (scripts.length >= 2) {
+                const start = match.index ?? 0;
+                words.push({
+                    word,
+                    start,
+                    end: start + word.length,
+                    scripts,
+                    normalized: this.normalize(word).text
+                });
+            }
+        }
+
+        return words;
+    }
+
+    /**
+     * Converts a mixed-script word to a threat pattern.
+     *
+     * @param word The mixed-script word
+     * @returns Threat pattern of type mixed_script located at the word
+     */
+    public toThreatPattern(word: MixedScriptWord): ThreatPattern {
+        return {
+            type: 'mixed_script',
+            pattern: word.word,
+            severity: 'medium',
+            description: `Word mixes ${word.scripts.join(' and ')} letters, a common way to disguise text`,
+            location: { start: word.start, end: word.end },
+            normalizedText: word.normalized
+        };
+    }
+
+    /**
+     * Folds a single code point to its skeleton.
+     */
+    private fold(character: string): string {
+        let folded = '';
+
+        for (const part of character.normalize('NFKD')) {
+            const mapped = CONFUSABLES[part] ?? part;
+            if (!/[\p{M}\p{Default_Ignorable_Code_Point}]/u.test(mapped)) {
+                folded += mapped;
+            }
+        }
+
+        return folded;
+    }
+}
@@ -0,0 +1,192 @@
+import * as os from 'os';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as vscode from 'vscode';
+import { files } from '../__mocks__/vscode';
+import { CustomRuleLoader, parseRulesFile } from './CustomRuleLoader';
+import { SecurityService } from './SecurityService';
+
+const RULES = `rules:
+  - id: acme-internal-hosts
+    category: secret_extraction
+    severity: high
+    description: Asks for internal host names
+    regex: '\\b(list|show|print)\\s+(all\\s+)?internal\\s+hosts?\\b'
+  - id: acme-codenames
+    category: secret_extraction
+    severity: medium
+    description: Mentions an unreleased project codename
+    keywords: [bluebird, night jar]
+`;
+
+/**
+ * Builds a YAML rules file with one regex rule.
+ */
+function ruleFile(id: string, regex: string, extra = ''): string {
+    return `- id: ${id}\n  category: rule_bypass\n  severity: high\n  description: Test rule\n  regex: '${regex}'\n${extra}`;
+}
+
+describe('parseRulesFile', () => {
+    it('compiles regex and keyword rules', () => {
+        const { rules, disabled, errors } = parseRulesFile(RULES, 'rules.yaml');
+
+        expect(errors).toEqual([]);
+        expect(disabled).toEqual([]);
+        expect(rules.map(rule => [rule.ruleId, rule.type, rule.severity])).toEqual([
+            ['acme-internal-hosts', 'secret_extraction', 'high'],
+            ['acme-codenames', 'secret_extraction', 'medium']
+        ]);
+        expect(rules[0].patterns[0].test('Please LIST all internal hosts')).toBe(true);
+        expect(rules[1].patterns[0].test('the Night  Jar launch')).toBe(true);
+        expect(rules[1].patterns[0].test('bluebirds')).toBe(false);
+    });
+
+    it('reads the same rules from JSON', () => {
+        const json = JSON.stringify([{ id: 'a', category: 'rule_bypass', severity: 'low', description: 'd', regex: 'x+y', flags: 'm' }]);
+        const { rules } = parseRulesFile(json, 'rules.json');
+
+        expect(rules[0].patterns[0].flags).toBe('m');
+    });
+
+    it('reports invalid rules at their line and keeps the others', () => {
+        const content = RULES + `  - id: broken
+    category: made_up
+    severity: extreme
+    description: Broken
+    regex: '('
+`;
+        const { rules, errors } = parseRulesFile(content, 'rules.yaml');
+
+        expect(rules).toHaveLength(2);
+        expect(errors.map(error => [error.rule, error.line])).toEqual([['"broken"', 11], ['"broken"', 11]]);
+        expect(errors[0].message).toMatch(/^category must be one of/);
+        expect(errors[1].message).toMatch(/^severity must be one of/);
+    });
+
+    it('points duplicate ids at the second declaration', () => {
+        const { errors } = parseRulesFile(ruleFile('dup', 'a') + ruleFile('dup', 'b'), 'rules.yaml');
+
+        expect(errors).toEqual([expect.objectContaining({ line: 5, message: 'id "dup" is used by an earlier rule in this file' })]);
+    });
+
+    it('rejects regexes that match empty text or fail to compile', () => {
+        expect(parseRulesFile(ruleFile('empty', 'a*'), 'rules.yaml').errors[0].message).toMatch(/matches empty text/);
+        expect(parseRulesFile(ruleFile('invalid', '(a'), 'rules.yaml').errors[0].message).toMatch(/^regex is invalid/);
+    });
+
+    it.each([
+        '(a+)+$',
+        '^(\\w+\\s?)*!$',
+        '(?:x*y?){2,}z',
+        '((ab)+c)*d',
+        '(?<word>\\d+)+!'
+    ])('rejects the nested repetition %s', regex => {
+        const { rules, errors } = parseRulesFile(ruleFile('slow', regex), 'rules.yaml');
+
+        expect(rules).toEqual([]);
+        expect(errors[0].message).toMatch(/exponential time/);
+    });
+
+    it.each([
+        '(all\\s+)?internal\\s+hosts?',
+        '(\\w+\\s?){0,5}done',
+        '[(a+)]+x',
+        '\\(a+\\)+',
+        '(?:ignore|skip)\\s+(previous|prior)+ rules'
+    ])('accepts the regex %s', regex => {
+        expect(parseRulesFile(ruleFile('fine', regex), 'rules.yaml').errors).toEqual([]);
+    });
+
+    it('lists disabled rules separately', () => {
+        const { rules, disabled } = parseRulesFile(ruleFile('off', 'x', '  enabled: false\n'), 'rules.yaml');
+
+        expect(rules).toEqual([]);
+        expect(disabled).toEqual(['off']);
+    });
+
+    it('reports unknown fields and conflicting regex and keywords', () => {
+        const { errors } = parseRulesFile(ruleFile('both', 'x', '  keywords: [x]\n  color: red\n'), 'rules.yaml');
+
+        expect(errors.map(error => error.message)).toEqual([
+            'unknown field "color"; rules have id, regex, flags, keywords, category, severity, description, enabled',
+            'use either a regex or keywords, not both'
+        ]);
+    });
+
+    it('reports YAML syntax errors at their line', () => {
+        const { errors } = parseRulesFile('rules:\n  - id: x\n   bad: [', 'rules.yaml');
+
+        expect(errors).toEqual([expect.objectContaining({ line: 2 })]);
+    });
+});
+
+describe('CustomRuleLoader', () => {
+    const home = os.homedir();
+    const workspaceFolder = { uri: vscode.Uri.file('/projects/app'), name: 'app', index: 0 };
+    let securityService: SecurityService;
+    let loader: CustomRuleLoader;
+
+    beforeEach(() => {
+        securityService = new SecurityService();
+        loader = new CustomRuleLoader(securityService);
+        vscode.workspace.workspaceFolders = [workspaceFolder];
+        vscode.workspace.isTrusted = true;
+    });
+
+    afterEach(() => {
+        loader.dispose();
+        files.clear();
+        vscode.workspace.workspaceFolders = undefined;
+        vscode.workspace.isTrusted = true;
+    });
+
+    const customRuleIds = () => securityService.getActiveThreatPatterns().filter(p => p.ruleId).map(p => p.ruleId);
+
+    it('merges user-level and workspace rules, the workspace winning', async () => {
+        files.set(`${home}/.cloak/rules.yaml`, ruleFile('shared', 'user') + ruleFile('user-only', 'u'));
+        files.set('/projects/app/.cloak/rules.json', JSON.stringify([
+            { id: 'shared', category: 'exfiltration', severity: 'low', description: 'Workspace', regex: 'workspace' }
+        ]));
+
+        const result = await loader.start();
+
+        expect(result.files).toEqual(['~/.cloak/rules.yaml', '/projects/app/.cloak/rules.json']);
+        expect(result.rules.map(rule => [rule.ruleId, rule.type])).toEqual([['shared', 'exfiltration'], ['user-only', 'rule_bypass']]);
+        expect(customRuleIds()).toEqual(['shared', 'user-only']);
+    });
+
+    it('lets a workspace disable a user-level rule with the same id', async () => {
+        files.set(`${home}/.cloak/rules.yaml`, ruleFile('noisy', 'deploy') + ruleFile('kept', 'k'));
+        files.set('/projects/app/.cloak/rules.yaml', ruleFile('noisy', 'deploy', '  enabled: false\n'));
+
+        const result = await loader.start();
+
+        expect(result.rules.map(rule => rule.ruleId)).toEqual(['kept']);
+        expect(securityService.detectThreatPatterns('deploy now').detectedPatterns).toEqual([]);
+    });
+
+    it('ignores workspace rules until the workspace is trusted', async () => {
+        vscode.workspace.isTrusted = false;
+        files.set(`${home}/.cloak/rules.yaml`, ruleFile('user', 'u'));
+        files.set('/projects/app/.cloak/rules.yaml', ruleFile('workspace', 'w'));
+
+        const result = await loader.start();
+
+        expect(result.files).toEqual(['~/.cloak/rules.yaml']);
+        expect(customRuleIds()).toEqual(['user']);
+
+        vscode.workspace.isTrusted = true;
+        expect((await loader.reload()).rules.map(rule => rule.ruleId)).toEqual(['user', 'workspace']);
+    });
+
+    it('publishes problems and notifies listeners', async () => {
+        files.set('/projects/app/.cloak/rules.yaml', ruleFile('slow', '(a+)+$'));
+        const loaded: number[] = [];
+        loader.onRulesLoaded(result => loaded.push(result.errors.length));
+
+        const result = await loader.start();
+
+        expect(result.rules).toEqual([]);
+        expect(result.errors).toEqual([expect.objectContaining({ file: '/projects/app/.cloak/rules.yaml', rule: '"slow"', line: 0 })]);
+        expect(loaded).toEqual([1]);
+    });
+});
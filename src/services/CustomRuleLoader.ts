@@ -0,0 +1,656 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as yaml from 'js-yaml';
+import { ThreatPattern } from '../types';
+import { SecurityService, ThreatPatternDefinition } from './SecurityService';
+
+/**
+ * Problem found in a rules file. Rules with problems are skipped; the other
+ * rules of the file are still loaded.
+ */
+export interface CustomRuleError {
+    file: string;
+    rule?: string;
+    line?: number;
+    message: string;
+}
+
+/**
+ * Rules loaded from all rules files
+ */
+export interface CustomRuleLoadResult {
+    rules: ThreatPatternDefinition[];
+    errors: CustomRuleError[];
+    files: string[];
+}
+
+/**
+ * Rules compiled from a file. Valid rules with `enabled: false` are listed by
+ * id in `disabled`, so they can replace a rule with the same id from another file.
+ */
+export interface CompiledRules {
+    rules: ThreatPatternDefinition[];
+    disabled: string[];
+    errors: CustomRuleError[];
+}
+
+/**
+ * Listener notified after the rules files were loaded
+ */
+export type CustomRuleLoadListener = (result: CustomRuleLoadResult) => void;
+
+/**
+ * Rules files, looked up in the .cloak folder of the home directory and of
+ * each workspace folder
+ */
+const RULES_FILE_GLOB = '.cloak/rules.{json,yaml,yml}';
+const RULES_FILE_NAMES = ['rules.json', 'rules.yaml', 'rules.yml'];
+
+/**
+ * Fields of a rule
+ */
+const RULE_FIELDS = ['id', 'regex', 'flags', 'keywords', 'category', 'severity', 'description', 'enabled'];
+
+/**
+ * Rule identifiers: letters, digits, dots, dashes and underscores
+ */
+const RULE_ID = /^[A-Za-z0-9][\w.-]*$/;
+
+/**
+ * Regex flags a rule may use. Only the first match of a rule is reported,
+ * so the global and sticky flags are not allowed.
+ */
+const RULE_REGEX_FLAGS = /^(?!.*(.).*\1)[imsu]*$/;
+
+/**
+ * Rule severities
+ */
+const SEVERITIES = ['low', 'medium', 'high'];
+
+/**
+ * Group prefixes that are not quantifiers: (?: (?= (?! (?<= (?<! and (?<name>
+ */
+const GROUP_PREFIX = /^\(\?(?:<(?![=!])[^>]*>|<[=!]|[:=!])/;
+
+/**
+ * Quantifiers, with the lazy modifier. Unbounded ones repeat without limit.
+ */
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/;
+const UNBOUNDED_QUANTIFIER = /^(?:[*+]|\{\d+,\})/;
+
+/**
+ * Parses a rules file and compiles its rules into threat pattern definitions.
+ *
+ * A file holds a list of rules, either at the top level or under `rules`.
+ * Each rule has an `id`, a `category`, a `severity`, a `description`, either
+ * a `regex` (with optional `flags`, case-insensitive by default) or a list of
+ * `keywords`, and an optional `enabled` flag.
+ *
+ * @param content Content of the rules file
+ * @param file Path of the file, used in error messages; a `.json` extension
+ *             selects the JSON parser, anything else YAML
+ * @returns The enabled rules, the ids of the disabled rules and the problems found
+ */
+export function parseRulesFile(content: string, file: string): CompiledRules {
+    const parsed = parseRulesDocument(content, file);
+    if (parsed.error) {
+        return { rules: [], disabled: [], errors: [parsed.error] };
+    }
+    if (parsed.document === undefined || parsed.document === null) {
+        return { rules: [], disabled: [], errors: [] };
+    }
+
+    const { document } = parsed;
+    const entries = Array.isArray(document)
+        ? document
+        : isRecord(document) && Array.isArray(document.rules) ? document.rules : undefined;
+    if (!entries) {
+        return { rules: [], disabled: [], errors: [{ file, line: 0, message: 'expected a list of rules, or an object with a "rules" list' }] };
+    }
+
+    return compileRules(entries, content, file);
+}
+
+/**
+ * Parses a JSON or YAML document.
+ *
+ * @param content Content of the file
+ * @param file Path of the file; a `.json` extension selects the JSON parser, anything else YAML
+ * @returns The parsed document, or the parse error located in the file
+ */
+export function parseRulesDocument(content: string, file: string): { document?: unknown; error?: CustomRuleError } {
+    try {
+        return { document: file.toLowerCase().endsWith('.json') ? JSON.parse(content) : yaml.load(content) };
+    } catch (error) {
+        return { error: { file, line: getErrorLine(error, content), message: `cannot be parsed: ${getErrorMessage(error)}` } };
+    }
+}
+
+/**
+ * Validates a list of rules and compiles them into threat pattern definitions.
+ * Rules with problems are skipped.
+ *
+ * @param entries Rules as parsed from the file
+ * @param content Content of the file, used to locate problems
+ * @param file Path of the file, used in error messages
+ * @returns The enabled rules, the ids of the disabled rules and the problems found
+ */
+export function compileRules(entries: unknown[], content: string, file: string): CompiledRules {
+    const rules: ThreatPatternDefinition[] = [];
+    const disabled: string[] = [];
+    const errors: CustomRuleError[] = [];
+
+    const seenIds = new Set<string>();
+    const idCounts = new Map<string, number>();
+    entries.forEach((entry: unknown, index: number) => {
+        const id = isRecord(entry) && typeof entry.id === 'string' ? entry.id : undefined;
+        const rule = id !== undefined ? `"${id}"` : `#${index + 1}`;
+        const occurrence = id !== undefined ? idCounts.get(id) ?? 0 : 0;
+        if (id !== undefined) {
+            idCounts.set(id, occurrence + 1);
+        }
+        const report = (message: string) => errors.push({ file, rule, line: findRuleLine(content, id, occurrence), message });
+
+        if (!isRecord(entry)) {
+            report('expected an object with id, category, severity, description and regex or keywords');
+            return;
+        }
+
+        const problems = validateRule(entry);
+        if (id !== undefined && seenIds.has(id)) {
+            problems.push(`id "${id}" is used by an earlier rule in this file`);
+        }
+        if (problems.length > 0) {
+            problems.forEach(report);
+            return;
+        }
+        seenIds.add(entry.id as string);
+
+        let regex: RegExp;
+        try {
+            regex = compileRule(entry);
+        } catch (error) {
+            report(`regex is invalid: ${getErrorMessage(error)}`);
+            return;
+        }
+        if (regex.test('')) {
+            report('regex matches empty text, so it would flag every prompt');
+            return;
+        }
+        if (hasNestedQuantifier(regex.source)) {
+            report('regex repeats a group that contains a repetition, such as (a+)+, which can take exponential time; ' +
+                'use a bounded repetition such as {0,5} for the outer group');
+            return;
+        }
+
+        if (entry.enabled === false) {
+            disabled.push(entry.id as string);
+        } else {
+            rules.push({
+                type: entry.category as ThreatPattern['type'],
+                patterns: [regex],
+                severity: entry.severity as ThreatPatternDefinition['severity'],
+                description: (entry.description as string).trim(),
+                ruleId: entry.id as string
+            });
+        }
+    });
+
+    return { rules, disabled, errors };
+}
+
+/**
+ * Checks if a regex repeats a group without limit when the group itself
+ * contains a repetition, as in `(a+)+`, `(\w+\s?)*` or `(?:x*){2,}`. Such
+ * regexes can backtrack exponentially on text that almost matches.
+ *
+ * @param source Source of a valid regex
+ */
+function hasNestedQuantifier(source: string): boolean {
+    // Whether each open group contains a quantifier
+    const groups: boolean[] = [];
+    let closedGroupQuantified: boolean | undefined;
+    let inClass = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inClass) {
+            if (char === '\\') {
+                i++;
+            } else if (char === ']') {
+                inClass = false;
+            }
+            continue;
+        }
+
+        const rest = source.substring(i);
+        const quantifier = QUANTIFIER.exec(rest);
+        if (quantifier) {
+            if (closedGroupQuantified && UNBOUNDED_QUANTIFIER.test(rest)) {
+                return true;
+            }
+            if (groups.length > 0) {
+                groups[groups.length - 1] = true;
+            }
+            i += quantifier[0].length - 1;
+            closedGroupQuantified = undefined;
+            continue;
+        }
+
+        closedGroupQuantified = undefined;
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            inClass = true;
+        } else if (char === '(') {
+            groups.push(false);
+            i += (GROUP_PREFIX.exec(rest)?.[0].length ?? 1) - 1;
+        } else if (char === ')') {
+            closedGroupQuantified = groups.pop() ?? false;
+            if (closedGroupQuantified && groups.length > 0) {
+                groups[groups.length - 1] = true;
+            }
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Checks the fields of a rule.
+ *
+ * @returns A message for each problem, empty if the rule is valid
+ */
+function validateRule(entry: Record<string, unknown>): string[] {
+    const problems: string[] = [];
+
+    for (const field of Object.keys(entry)) {
+        if (!RULE_FIELDS.includes(field)) {
+            problems.push(`unknown field "${field}"; rules have ${RULE_FIELDS.join(', ')}`);
+        }
+    }
+
+    if (typeof entry.id !== 'string' || !RULE_ID.test(entry.id)) {
+        problems.push('id is required and may only contain letters, digits, ".", "-" and "_"');
+    }
+
+    const categories = SecurityService.getThreatTypes();
+    if (typeof entry.category !== 'string' || !categories.includes(entry.category as ThreatPattern['type'])) {
+        problems.push(`category must be one of ${categories.join(', ')}${describeValue(entry.category)}`);
+    }
+
+    if (typeof entry.severity !== 'string' || !SEVERITIES.includes(entry.severity)) {
+        problems.push(`severity must be one of ${SEVERITIES.join(', ')}${describeValue(entry.severity)}`);
+    }
+
+    if (typeof entry.description !== 'string' || entry.description.trim() === '') {
+        problems.push('description is required');
+    }
+
+    if (entry.enabled !== undefined && typeof entry.enabled !== 'boolean') {
+        problems.push(`enabled must be true or false${describeValue(entry.enabled)}`);
+    }
+
+    const hasRegex = entry.regex !== undefined;
+    const hasKeywords = entry.keywords !== undefined;
+    if (!hasRegex && !hasKeywords) {
+        problems.push('a regex or a list of keywords is required');
+    } else if (hasRegex && hasKeywords) {
+        problems.push('use either a regex or keywords, not both');
+    } else if (hasRegex && (typeof entry.regex !== 'string' || entry.regex === '')) {
+        problems.push('regex must be a non-empty string');
+    } else if (hasKeywords && (!Array.isArray(entry.keywords) || entry.keywords.length === 0 ||
+        entry.keywords.some(keyword => typeof keyword !== 'string' || keyword.trim() === ''))) {
+        problems.push('keywords must be a non-empty list of non-empty strings');
+    }
+
+    if (entry.flags !== undefined) {
+        if (!hasRegex) {
+            problems.push('flags only apply to a regex');
+        } else if (typeof entry.flags !== 'string' || !RULE_REGEX_FLAGS.test(entry.flags)) {
+            problems.push(`flags may only combine i, m, s and u${describeValue(entry.flags)}`);
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Compiles the regex or keywords of a valid rule. Keywords match whole words,
+ * ignoring case, with any whitespace between the words of a phrase.
+ *
+ * @throws SyntaxError if the regex is invalid
+ */
+function compileRule(entry: Record<string, unknown>): RegExp {
+    if (typeof entry.regex === 'string') {
+        return new RegExp(entry.regex, typeof entry.flags === 'string' ? entry.flags : 'i');
+    }
+
+    const keywords = (entry.keywords as string[]).map(keyword =>
+        keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+    return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${keywords.join('|')})(?![\\p{L}\\p{N}_])`, 'iu');
+}
+
+/**
+ * Describes the value of an invalid field for an error message.
+ */
+function describeValue(value: unknown): string {
+    return value === undefined ? '' : ` (got ${JSON.stringify(value)})`;
+}
+
+/**
+ * Finds the zero-based line that declares a rule, so problems are shown next to it.
+ *
+ * @param occurrence Number of earlier rules in the file with the same id
+ */
+function findRuleLine(content: string, id: string | undefined, occurrence: number): number | undefined {
+    if (id === undefined) {
+        return undefined;
+    }
+    const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const declaration = new RegExp(`["']?id["']?\\s*:\\s*["']?${escaped}["']?\\s*(?:[,}#]|$)`);
+    const lines = content
+        .split('\n')
+        .map((text, line) => declaration.test(text) ? line : -1)
+        .filter(line => line !== -1);
+    return lines[occurrence];
+}
+
+/**
+ * Gets the zero-based line of a parse error, from the YAML error mark or the
+ * position in a JSON error message.
+ */
+function getErrorLine(error: unknown, content: string): number {
+    if (error instanceof yaml.YAMLException) {
+        return error.mark?.line ?? 0;
+    }
+    const position = /position (\d+)/.exec(getErrorMessage(error));
+    return position ? content.substring(0, Number(position[1])).split('\n').length - 1 : 0;
+}
+
+/**
+ * Gets the message of an error, without the YAML code excerpt.
+ */
+function getErrorMessage(error: unknown): string {
+    if (error instanceof yaml.YAMLException) {
+        return error.reason;
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Checks if a value is a plain object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * CustomRuleLoader loads user-defined detection rules from `.cloak/rules.json`
+ * or `.cloak/rules.yaml` files, so teams can add rules without changing the
+ * built-in patterns.
+ *
+ * User-level rules live in `~/.cloak/` and workspace rules in the `.cloak/`
+ * folder of each workspace folder. A workspace rule replaces a user-level rule
+ * with the same id, which also lets a workspace disable it. Workspace rules
+ * are only loaded once the workspace is trusted, since their regexes run on
+ * every prompt.
+ *
+ * Responsibilities:
+ * - Parse and validate the rules files, reporting problems per rule
+ * - Publish problems as diagnostics on the rules files
+ * - Hand the enabled rules to the SecurityService, merged with the built-in patterns
+ * - Reload when a rules file or the workspace folders change
+ */
+export class CustomRuleLoader implements vscode.Disposable {
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private watchers: vscode.Disposable[] = [];
+    private disposables: vscode.Disposable[] = [];
+    private loadListeners: CustomRuleLoadListener[] = [];
+    private pendingReload: NodeJS.Timeout | undefined;
+    private reloadQueue: Promise<CustomRuleLoadResult | void> = Promise.resolve();
+    private lastResult: CustomRuleLoadResult = { rules: [], errors: [], files: [] };
+
+    constructor(
+        private readonly securityService: SecurityService,
+        private readonly debounceMs: number = 500
+    ) {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('cloak-rules');
+        this.disposables.push(
+            this.diagnosticCollection,
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                this.createWatchers();
+                this.scheduleReload();
+            }),
+            vscode.workspace.onDidGrantWorkspaceTrust(() => {
+                this.createWatchers();
+                this.scheduleReload();
+            })
+        );
+    }
+
+    /**
+     * Starts watching the rules files and loads them.
+     *
+     * @returns The loaded rules and the problems found
+     */
+    public start(): Promise<CustomRuleLoadResult> {
+        this.createWatchers();
+        return this.reload();
+    }
+
+    /**
+     * Loads all rules files and replaces the active rules. Reloads run one at
+     * a time, so the last file change always wins.
+     *
+     * @returns The loaded rules and the problems found
+     */
+    public reload(): Promise<CustomRuleLoadResult> {
+        const result = this.reloadQueue.then(() => this.loadRules());
+        this.reloadQueue = result.catch(error => console.error('Failed to load custom rules:', error));
+        return result;
+    }
+
+    /**
+     * Gets the result of the last load.
+     */
+    public getLastResult(): CustomRuleLoadResult {
+        return {
+            rules: [...this.lastResult.rules],
+            errors: [...this.lastResult.errors],
+            files: [...this.lastResult.files]
+        };
+    }
+
+    /**
+     * Registers a listener notified after each load.
+     *
+     * @param listener Function called with the load result
+     * @returns Disposable to unregister the listener
+     */
+    public onRulesLoaded(listener: CustomRuleLoadListener): vscode.Disposable {
+        this.loadListeners.push(listener);
+
+        return {
+            dispose: () => {
+                const index = this.loadListeners.indexOf(listener);
+                if (index !== -1) {
+                    this.loadListeners.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    /**
+     * Reads, validates and merges the rules files, then activates the rules.
+     */
+    private async loadRules(): Promise<CustomRuleLoadResult> {
+        // Disabled rules are kept as tombstones until all files are merged
+        const merged = new Map<string, ThreatPatternDefinition | undefined>();
+        const errors: CustomRuleError[] = [];
+        const files: string[] = [];
+        const diagnostics: Array<[vscode.Uri, vscode.Diagnostic[]]> = [];
+
+        // User-level rules first, so workspace rules with the same id replace them
+        for (const uri of this.getRulesFileUris()) {
+            const content = await this.readFile(uri);
+            if (content === undefined) {
+                continue;
+            }
+
+            const file = this.getDisplayPath(uri);
+            const parsed: CompiledRules = content instanceof Error
+                ? { rules: [], disabled: [], errors: [{ file, line: 0, message: `cannot be read: ${content.message}` }] }
+                : parseRulesFile(content, file);
+
+            files.push(file);
+            errors.push(...parsed.errors);
+            diagnostics.push([uri, parsed.errors.map(error => this.createDiagnostic(error))]);
+            for (const rule of parsed.rules) {
+                merged.set(rule.ruleId ?? '', rule);
+            }
+            for (const id of parsed.disabled) {
+                merged.set(id, undefined);
+            }
+        }
+
+        const rules = [...merged.values()].filter((rule): rule is ThreatPatternDefinition => rule !== undefined);
+        const result: CustomRuleLoadResult = { rules, errors, files };
+        this.lastResult = result;
+        this.securityService.updateCustomRules(result.rules);
+
+        this.diagnosticCollection.clear();
+        this.diagnosticCollection.set(diagnostics);
+
+        for (const listener of this.loadListeners) {
+            try {
+                listener(result);
+            } catch (error) {
+                console.error('Error in custom rule load listener:', error);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Reads a rules file.
+     *
+     * @returns The content, undefined if the file does not exist, or the read error
+     */
+    private async readFile(uri: vscode.Uri): Promise<string | Error | undefined> {
+        try {
+            const bytes = await vscode.workspace.fs.readFile(uri);
+            return new TextDecoder('utf-8').decode(bytes);
+        } catch (error) {
+            if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                return undefined;
+            }
+            return error instanceof Error ? error : new Error(String(error));
+        }
+    }
+
+    /**
+     * Gets the possible rules files, user level first, then in the order of
+     * the workspace folders.
+     */
+    private getRulesFileUris(): vscode.Uri[] {
+        return this.getRulesFolderBases().flatMap(base =>
+            RULES_FILE_NAMES.map(name => vscode.Uri.joinPath(base, '.cloak', name)));
+    }
+
+    /**
+     * Gets the folders whose `.cloak` folder holds rules files: the home
+     * directory, and the workspace folders if the workspace is trusted.
+     */
+    private getRulesFolderBases(): vscode.Uri[] {
+        const bases = new Map<string, vscode.Uri>();
+        const workspaceFolders = vscode.workspace.isTrusted ? vscode.workspace.workspaceFolders ?? [] : [];
+        for (const uri of [vscode.Uri.file(os.homedir()), ...workspaceFolders.map(folder => folder.uri)]) {
+            bases.set(uri.toString(), uri);
+        }
+        return [...bases.values()];
+    }
+
+    /**
+     * Gets the path of a rules file as shown to the user.
+     */
+    private getDisplayPath(uri: vscode.Uri): string {
+        const home = vscode.Uri.file(os.homedir()).fsPath;
+        if (uri.fsPath.startsWith(home) && !vscode.workspace.getWorkspaceFolder(uri)) {
+            return `~${uri.fsPath.substring(home.length)}`;
+        }
+        return vscode.workspace.asRelativePath(uri);
+    }
+
+    /**
+     * Creates a diagnostic for a problem in a rules file.
+     */
+    private createDiagnostic(error: CustomRuleError): vscode.Diagnostic {
+        const line = error.line ?? 0;
+        const message = error.rule ? `Rule ${error.rule}: ${error.message}` : `Rules file ${error.message}`;
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+            message,
+            vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = 'Cloak';
+        return diagnostic;
+    }
+
+    /**
+     * Watches the rules files of the home directory and of each workspace folder.
+     */
+    private createWatchers(): void {
+        this.disposeWatchers();
+
+        for (const base of this.getRulesFolderBases()) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(base, RULES_FILE_GLOB));
+            this.watchers.push(
+                watcher,
+                watcher.onDidCreate(() => this.scheduleReload()),
+                watcher.onDidChange(() => this.scheduleReload()),
+                watcher.onDidDelete(() => this.scheduleReload())
+            );
+        }
+    }
+
+    /**
+     * Schedules a reload after the rules files stopped changing for the debounce delay.
+     */
+    private scheduleReload(): void {
+        if (this.pendingReload) {
+            clearTimeout(this.pendingReload);
+        }
+        this.pendingReload = setTimeout(() => {
+            this.pendingReload = undefined;
+            this.reload().catch(() => undefined);
+        }, this.debounceMs);
+    }
+
+    /**
+     * Disposes of the file system watchers.
+     */
+    private disposeWatchers(): void {
+        for (const disposable of this.watchers) {
+            disposable.dispose();
+        }
+        this.watchers = [];
+    }
+
+    /**
+     * Disposes of the watchers and diagnostics.
+     */
+    public dispose(): void {
+        if (this.pendingReload) {
+            clearTimeout(this.pendingReload);
+            this.pendingReload = undefined;
+        }
+        this.disposeWatchers();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables = [];
+        this.loadListeners = [];
+    }
+}
@@ -0,0 +1,295 @@
+import { ThreatPattern } from '../types';
+
+/**
+ * Domains exempted from and always flagged by exfiltration detection
+ */
+export interface ExfiltrationDomainLists {
+    allowed: string[];
+    blocked: string[];
+}
+
+/**
+ * URLs in plain text, markdown links and HTML attributes
+ */
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`)\]]+/gi;
+
+/**
+ * Markdown and HTML images, which are fetched as soon as they are rendered
+ */
+const IMAGE_URL_PATTERNS: RegExp[] = [
+    /!\[[^\]]*\]\(\s*<?(https?:\/\/[^\s)>]+)/gi,
+    /<img\b[^>]*?\bsrc\s*=\s*["']?(https?:\/\/[^\s"'>]+)/gi
+];
+
+/**
+ * Instructions to send data to a URL or endpoint
+ */
+const SEND_INSTRUCTION_PATTERN = /\b(?:send|post|upload|submit|forward|transmit|exfiltrate|copy|leak|append)\s+(?:it|them|this|that|the|all|your|any|every)\b(?:[^.\n]|\.(?=\S)){0,80}?\b(?:to|into)\s+(?:the\s+)?(?:(https?:\/\/[^\s<>"'`)\]]+)|(?:url|endpoint|webhook|server|address)\b)/gi;
+
+/**
+ * Confidential data: secrets and the conversation itself. Instructions that
+ * name an endpoint rather than a URL only count when they mention such data,
+ * since sending form data or files to a server is everyday web development.
+ */
+const CONFIDENTIAL_DATA = /\b(?:secrets?|credentials?|passwords?|(?:api|access|private|secret)[\s_-]?keys?|tokens?|env(?:ironment)?\s+variables?|\.env|conversation|chat\s+history|system\s+prompt)\b/i;
+
+/**
+ * Verbs that only describe stealing data, as opposed to send, post or upload
+ */
+const EXFILTRATION_VERB = /^(?:exfiltrate|leak)\b/i;
+
+/**
+ * Credentials that must never travel in a URL
+ */
+const SECRET_PATTERNS: RegExp[] = [
+    /AKIA[0-9A-Z]{16}/,
+    /gh[pousr]_[A-Za-z0-9]{36,}/,
+    /glpat-[A-Za-z0-9_-]{20,}/,
+    /xox[abprs]-[A-Za-z0-9-]{10,}/,
+    /sk-[A-Za-z0-9_-]{20,}/
+];
+
+/**
+ * A query value or path segment that may be base64. Only values that decode
+ * to readable text count, so random tokens and hashes are not flagged.
+ */
+const BASE64_VALUE = /^[A-Za-z0-9+/_-]{24,}={0,2}$/;
+
+/**
+ * A query value that is a placeholder for data to fill in, such as {secret} or $DATA
+ */
+const PAYLOAD_PLACEHOLDER = /[{}$<>[\]]|%7B|%24|%3C/i;
+
+/**
+ * A hostname label that looks like encoded data rather than a name
+ */
+const ENCODED_LABEL = /^(?=[a-z0-9]*\d)(?=[a-z0-9]*[a-z])[a-z0-9]{24,63}$/i;
+
+/**
+ * Command substitution or a template placeholder in a hostname, filled in by a shell or a model
+ */
+const HOSTNAME_PLACEHOLDER = /^https?:\/\/[^/?#\s]*(?:\$\(|\$\{|\{\{|\{[A-Za-z_])/i;
+
+/**
+ * Shortest query value treated as data in an image URL, whatever it contains
+ */
+const MIN_IMAGE_PAYLOAD_LENGTH = 64;
+
+/**
+ * ExfiltrationDetector finds ways a model could be made to send data out:
+ * links and images whose URLs carry data, instructions to send data to a URL,
+ * and data encoded in DNS names.
+ *
+ * Responsibilities:
+ * - Flag markdown and HTML images whose query strings carry payloads, since
+ *   rendering the image sends the request
+ * - Flag URLs that embed base64-encoded text or credentials
+ * - Flag instructions to send data to a URL, or confidential data to an endpoint
+ * - Flag hostnames with encoded labels or placeholders (DNS exfiltration)
+ * - Skip allowlisted domains and always flag blocklisted ones
+ */
+export class ExfiltrationDetector {
+    private allowedDomains: string[] = [];
+    private blockedDomains: string[] = [];
+
+    constructor(lists?: Partial<ExfiltrationDomainLists>) {
+        this.setDomainLists({ allowed: lists?.allowed ?? [], blocked: lists?.blocked ?? [] });
+    }
+
+    /**
+     * Sets the allowlist and blocklist. Entries match the domain and its subdomains.
+     *
+     * @param lists Allowed and blocked domains
+     */
+    public setDomainLists(lists: ExfiltrationDomainLists): void {
+        this.allowedDomains = lists.allowed.map(domain => this.normalizeDomain(domain)).filter(Boolean);
+        this.blockedDomains = lists.blocked.map(domain => this.normalizeDomain(domain)).filter(Boolean);
+    }
+
+    /**
+     * Finds exfiltration vectors in a text.
+     *
+     * @param content The text to check
+     * @returns Threat patterns of type exfiltration, one per vector and URL
+     */
+    public detect(content: string): ThreatPattern[] {
+        if (!/https?:\/\/|\b(?:url|endpoint|webhook|server|address)\b/i.test(content)) {
+            return [];
+        }
+
+        const patterns: ThreatPattern[] = [];
+        const reported = new Set<number>();
+        const report = (start: number, end: number, pattern: Omit<ThreatPattern, 'type' | 'location'>) => {
+            if (!reported.has(start)) {
+                reported.add(start);
+                patterns.push({ type: 'exfiltration', ...pattern, location: { start, end } });
+            }
+        };
+
+        for (const match of content.matchAll(SEND_INSTRUCTION_PATTERN)) {
+            const start = match.index ?? 0;
+            const host = match[1] ? this.getHost(match[1]) : undefined;
+            if (host) {
+                if (!this.isAllowed(host)) {
+                    report(start, start + match[0].length, {
+                        pattern: match[0],
+                        severity: 'high',
+                        description: 'Instruction to send data to an external address'
+                    });
+                }
+                continue;
+            }
+
+            // Without a URL, only an explicit exfiltration verb is high severity;
+            // other endpoint-only instructions stay below the hard block
+            if (!CONFIDENTIAL_DATA.test(match[0])) {
+                continue;
+            }
+            const explicit = EXFILTRATION_VERB.test(match[0]);
+            report(start, start + match[0].length, {
+                pattern: match[0],
+                severity: explicit ? 'high' : 'medium',
+                description: explicit
+                    ? 'Instruction to leak confidential data to an endpoint'
+                    : 'Instruction to send confidential data to an endpoint'
+            });
+        }
+
+        for (const link of this.detectLinks(content)) {
+            report(link.location?.start ?? 0, link.location?.end ?? 0, link);
+        }
+
+        return patterns;
+    }
+
+    /**
+     * Finds the URLs in a text that carry data out or point to a blocklisted
+     * domain, without looking for instructions to send data.
+     *
+     * @param content The text to check
+     * @returns Threat patterns of type exfiltration, located at the URL
+     */
+    public detectLinks(content: string): ThreatPattern[] {
+        if (!/https?:\/\//i.test(content)) {
+            return [];
+        }
+
+        const images = new Set<number>();
+        for (const regex of IMAGE_URL_PATTERNS) {
+            for (const match of content.matchAll(regex)) {
+                images.add((match.index ?? 0) + match[0].length - match[1].length);
+            }
+        }
+
+        const links: ThreatPattern[] = [];
+        for (const match of content.matchAll(URL_PATTERN)) {
+            const start = match.index ?? 0;
+            const finding = this.checkUrl(match[0], images.has(start));
+            if (finding) {
+                links.push({ type: 'exfiltration', ...finding, location: { start, end: start + match[0].length } });
+            }
+        }
+        return links;
+    }
+
+    /**
+     * Checks a single URL against the domain lists and the URL-based vectors.
+     */
+    private checkUrl(text: string, isImage: boolean): Omit<ThreatPattern, 'type' | 'location'> | undefined {
+        const host = this.getHost(text);
+        if (!host) {
+            return undefined;
+        }
+
+        if (this.isBlocked(host)) {
+            return { pattern: text, severity: 'high', description: `Link to blocklisted domain ${host}` };
+        }
+        if (this.isAllowed(host)) {
+            return undefined;
+        }
+
+        if (HOSTNAME_PLACEHOLDER.test(text) || host.split('.').slice(0, -2).some(label => ENCODED_LABEL.test(label))) {
+            return { pattern: text, severity: 'high', description: 'Hostname carries encoded data or a placeholder (DNS exfiltration)' };
+        }
+
+        let url: URL;
+        try {
+            url = new URL(text);
+        } catch {
+            return undefined;
+        }
+
+        if (SECRET_PATTERNS.some(regex => regex.test(text))) {
+            return { pattern: text, severity: 'high', description: 'URL embeds what looks like a credential' };
+        }
+
+        const values = [...url.searchParams.values()];
+        const segments = url.pathname.split('/');
+        if ([...values, ...segments].some(value => this.isEncodedText(value))) {
+            return { pattern: text, severity: 'high', description: 'URL embeds a base64-encoded payload' };
+        }
+
+        const carriesData = (value: string) =>
+            value.length >= MIN_IMAGE_PAYLOAD_LENGTH ||
+            PAYLOAD_PLACEHOLDER.test(value) ||
+            /\S\s+\S/.test(value);
+        if (isImage && (values.some(carriesData) || PAYLOAD_PLACEHOLDER.test(url.search))) {
+            return { pattern: text, severity: 'high', description: 'Image URL carries data in its query string and is fetched when rendered' };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Checks if a value is base64 that decodes to readable text.
+     */
+    private isEncodedText(value: string): boolean {
+        if (!BASE64_VALUE.test(value)) {
+            return false;
+        }
+        const decoded = Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
+        const readable = decoded.match(/[\p{L}\p{N}\p{P}\p{Zs}]/gu)?.length ?? 0;
+        return decoded.length >= 16 && !decoded.includes('\uFFFD') && /\p{L}{3}/u.test(decoded) && readable / [...decoded].length >= 0.9;
+    }
+
+    /**
+     * Gets the lowercase hostname of a URL.
+     */
+    private getHost(text: string): string | undefined {
+        const match = text.match(/^https?:\/\/(?:[^@/?#\s]*@)?([^:/?#\s]+)/i);
+        return match?.[1].toLowerCase();
+    }
+
+    /**
+     * Checks if a host is an allowlisted domain or one of its subdomains.
+     */
+    private isAllowed(host: string): boolean {
+        return this.allowedDomains.some(domain => this.matchesDomain(host, domain));
+    }
+
+    /**
+     * Checks if a host is a blocklisted domain or one of its subdomains.
+     */
+    private isBlocked(host: string): boolean {
+        return this.blockedDomains.some(domain => this.matchesDomain(host, domain));
+    }
+
+    /**
+     * Checks if a host is a domain or one of its subdomains.
+     */
+    private matchesDomain(host: string, domain: string): boolean {
+        return host === domain || host.endsWith(`.${domain}`);
+    }
+
+    /**
+     * Normalizes a configured domain: lowercase, without scheme, path or leading "*."
+     */
+    private normalizeDomain(domain: string): string {
+        return domain
+            .trim()
+            .toLowerCase()
+            .replace(/^[a-z]+:\/\//, '')
+            .replace(/[/:].*$/, '')
+            .replace(/^\*?\./, '');
+    }
+}
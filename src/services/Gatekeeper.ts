@@ -4,9 +4,18 @@ import {
     SecurityAnalysis,
     InterceptedPrompt,
     SecurityDecision,
-    SecurityEvent
+    SecurityEvent,
+    ResponseFinding,
+    FileScanResult,
+    SecretFinding,
+    PiiFinding,
+    PromptSanitization,
+    PiiType,
+    ThreatPattern
 } from '../types';
 import { LocalStorageService } from './LocalStorageService';
+import { PiiDetector } from './PiiDetector';
+import { PromptSanitizer } from './PromptSanitizer';
 
 /**
  * Configuration for the Gatekeeper component
@@ -16,8 +25,43 @@ export interface GatekeeperConfig {
     warnThreshold: number;
     enableUserOverride: boolean;
     enableAuditLog: boolean;
+    /**
+     * Pattern types that are blocked whenever a high-severity finding of the
+     * type is detected, whatever the confidence of the analysis
+     */
+    blockedPatternTypes: ThreatPattern['type'][];
+    /**
+     * Whether prompts that would be blocked or warned about are sanitized and
+     * forwarded instead, when all of their findings can be removed
+     */
+    sanitizePrompts: boolean;
 }
 
+/**
+ * Options controlling how a security policy is enforced
+ */
+export interface EnforcementOptions {
+    /**
+     * Whether to show a VS Code notification for the decision.
+     * Chat requests report the decision in the response stream instead.
+     */
+    notifyUser?: boolean;
+}
+
+/**
+ * Actions a policy can require before sanitization is considered
+ */
+type PolicyAction = Exclude<SecurityDecision['action'], 'sanitize'>;
+
+/**
+ * Strictness of each action, used to combine the actions for threats and personal data
+ */
+const ACTION_RANK: Record<PolicyAction, number> = {
+    allow: 0,
+    warn: 1,
+    block: 2
+};
+
 /**
  * Gatekeeper component for security decision enforcement.
  * 
@@ -40,6 +84,8 @@ export class Gatekeeper implements vscode.Disposable {
     private readonly maxAuditLogSize: number = 1000;
     private outputChannel: vscode.OutputChannel;
     private localStorageService: LocalStorageService | undefined;
+    private piiDetector: PiiDetector | undefined;
+    private promptSanitizer: PromptSanitizer | undefined;
 
     constructor(config?: Partial<GatekeeperConfig>) {
         const vsConfig = vscode.workspace.getConfiguration('cloak');
@@ -48,7 +94,9 @@ export class Gatekeeper implements vscode.Disposable {
             blockThreshold: config?.blockThreshold ?? 0.7,
             warnThreshold: config?.warnThreshold ?? 0.5,
             enableUserOverride: config?.enableUserOverride ?? true,
-            enableAuditLog: config?.enableAuditLog ?? vsConfig.get<boolean>('enableLogging', true)
+            enableAuditLog: config?.enableAuditLog ?? vsConfig.get<boolean>('enableLogging', true),
+            blockedPatternTypes: config?.blockedPatternTypes ?? ['exfiltration'],
+            sanitizePrompts: config?.sanitizePrompts ?? vsConfig.get<boolean>('sanitizePrompts', false)
         };
 
         this.outputChannel = vscode.window.createOutputChannel('Cloak Security');
@@ -65,6 +113,24 @@ export class Gatekeeper implements vscode.Disposable {
         this.localStorageService = storageService;
     }
 
+    /**
+     * Sets the detector for personal data whose action is warn or block.
+     * 
+     * @param detector The PII detector instance
+     */
+    public setPiiDetector(detector: PiiDetector): void {
+        this.piiDetector = detector;
+    }
+
+    /**
+     * Sets the sanitizer that rewrites prompts instead of blocking them.
+     * 
+     * @param sanitizer The prompt sanitizer instance
+     */
+    public setPromptSanitizer(sanitizer: PromptSanitizer): void {
+        this.promptSanitizer = sanitizer;
+    }
+
     /**
      * Enforces security policy based on analysis results.
      * Makes a decision to allow, block, or warn based on threat level.
@@ -73,15 +139,18 @@ export class Gatekeeper implements vscode.Disposable {
      * 
      * @param analysis Security analysis result from SecurityService
      * @param prompt The original intercepted prompt
+     * @param options Enforcement options
      * @returns Security decision with action and reason
      */
     public async enforceSecurityPolicy(
         analysis: SecurityAnalysis,
-        prompt: InterceptedPrompt
+        prompt: InterceptedPrompt,
+        options?: EnforcementOptions
     ): Promise<SecurityDecision> {
-        const decision = this.makeDecision(analysis, prompt);
+        const piiFindings = this.detectPii(prompt);
+        const decision = this.makeDecision(analysis, prompt, piiFindings);
         
-        // Log the security event
+        // Log the security event; personal data is counted by type, never stored
         this.logSecurityEvent({
             id: this.generateEventId(),
             timestamp: new Date(),
@@ -90,11 +159,16 @@ export class Gatekeeper implements vscode.Disposable {
             threatLevel: analysis.threatLevel,
             confidence: analysis.confidence,
             decision: decision.action,
-            processingTime: analysis.processingTime
+            processingTime: analysis.processingTime,
+            ...(piiFindings.length > 0 ? { piiCounts: this.countPii(piiFindings) } : {}),
+            ...(decision.sanitization ? { sanitizedHash: decision.sanitization.sanitizedHash } : {}),
+            signaturePacks: this.describeSignaturePacks(analysis.detectedPatterns)
         });
 
         // Notify user based on decision
-        await this.notifyUser(decision);
+        if (options?.notifyUser ?? true) {
+            await this.notifyUser(decision);
+        }
 
         return decision;
     }
@@ -102,47 +176,214 @@ export class Gatekeeper implements vscode.Disposable {
 
     /**
      * Makes a security decision based on threat level and confidence.
+     * Personal data whose action is warn or block makes the decision at least
+     * that strict. With sanitizing enabled, a prompt held back only for its
+     * threat patterns is sanitized instead when all of them can be removed.
      * 
      * Requirements: 4.1, 4.3
      * 
      * @param analysis Security analysis result
      * @param prompt Original intercepted prompt
+     * @param piiFindings Personal data found in the prompt and its references
      * @returns Security decision
      */
     private makeDecision(
         analysis: SecurityAnalysis,
-        prompt: InterceptedPrompt
+        prompt: InterceptedPrompt,
+        piiFindings: PiiFinding[] = []
     ): SecurityDecision {
         const { threatLevel, confidence, reasoning, detectedPatterns } = analysis;
-
-        // Dangerous threats with high confidence should be blocked
-        if (threatLevel === 'dangerous' && confidence >= this.config.blockThreshold) {
+        const flaggedReferences = (analysis.referenceAnalyses ?? [])
+            .filter(reference => reference.threatLevel !== 'safe')
+            .map(reference => reference.label);
+        const referenceDetails = flaggedReferences.length > 0 ? { flaggedReferences } : {};
+        const piiDetails = piiFindings.length > 0 ? { piiFindings } : {};
+
+        const threatAction = this.determineAction(threatLevel, confidence, detectedPatterns);
+        const piiAction = this.determinePiiAction(piiFindings);
+        const action = ACTION_RANK[piiAction] > ACTION_RANK[threatAction] ? piiAction : threatAction;
+        const piiReason = piiAction === action ? this.buildPiiReason(piiFindings, action) : '';
+
+        const sanitization = action !== 'allow' && piiAction === 'allow'
+            ? this.sanitizePrompt(analysis, prompt)
+            : undefined;
+        if (sanitization && this.promptSanitizer) {
+            const threatReason = action === 'block'
+                ? this.buildBlockReason(reasoning, detectedPatterns)
+                : this.buildWarnReason(reasoning, detectedPatterns);
             return {
-                action: 'block',
-                reason: this.buildBlockReason(reasoning, detectedPatterns),
+                action: 'sanitize',
+                reason: `Sanitized instead of ${action === 'block' ? 'blocked' : 'held for confirmation'}: ` +
+                    `${this.promptSanitizer.describeChanges(sanitization.changes)}. ${threatReason}`,
                 originalPrompt: prompt,
-                analysis
+                analysis,
+                sanitization,
+                ...referenceDetails,
+                ...piiDetails
             };
         }
 
+        switch (action) {
+            case 'block':
+                return {
+                    action: 'block',
+                    reason: (piiReason + (threatAction === 'block' ? this.buildBlockReason(reasoning, detectedPatterns) : '')).trim(),
+                    originalPrompt: prompt,
+                    analysis,
+                    ...referenceDetails,
+                    ...piiDetails
+                };
+            case 'warn':
+                return {
+                    action: 'warn',
+                    reason: (piiReason + (threatAction === 'warn' ? this.buildWarnReason(reasoning, detectedPatterns) : '')).trim(),
+                    originalPrompt: prompt,
+                    analysis,
+                    ...referenceDetails,
+                    ...piiDetails
+                };
+            default:
+                return {
+                    action: 'allow',
+                    reason: 'Prompt passed security analysis',
+                    originalPrompt: prompt,
+                    analysis,
+                    ...referenceDetails,
+                    ...piiDetails
+                };
+        }
+    }
+
+    /**
+     * Sanitizes a prompt if sanitizing is enabled and the analysis allows it.
+     * Prompts blocked by policy because they were too large are never sanitized.
+     */
+    private sanitizePrompt(analysis: SecurityAnalysis, prompt: InterceptedPrompt): PromptSanitization | undefined {
+        if (!this.config.sanitizePrompts || !this.promptSanitizer || analysis.oversized) {
+            return undefined;
+        }
+        return this.promptSanitizer.sanitize(prompt, analysis.detectedPatterns);
+    }
+
+    /**
+     * Finds personal data in a prompt and its attached references.
+     */
+    private detectPii(prompt: InterceptedPrompt): PiiFinding[] {
+        const detector = this.piiDetector;
+        if (!detector) {
+            return [];
+        }
+        const texts = [prompt.content, ...(prompt.references ?? []).map(reference => reference.content)];
+        return texts.flatMap(text => detector.detect(text));
+    }
+
+    /**
+     * Determines the action required by the personal data in a prompt.
+     * Redacted data does not hold the prompt back; it is replaced when forwarded.
+     */
+    private determinePiiAction(findings: PiiFinding[]): PolicyAction {
+        if (findings.some(f => f.action === 'block')) {
+            return 'block';
+        }
+        return findings.some(f => f.action === 'warn') ? 'warn' : 'allow';
+    }
+
+    /**
+     * Builds the part of a reason message naming the personal data that
+     * requires an action.
+     */
+    private buildPiiReason(findings: PiiFinding[], action: PolicyAction): string {
+        const types = [...new Set(findings.filter(f => f.action === action).map(f => f.type))];
+        return types.length > 0 ? `Prompt contains personal data: ${types.join(', ')}. ` : '';
+    }
+
+    /**
+     * Counts personal data findings by type.
+     */
+    private countPii(findings: PiiFinding[]): Partial<Record<PiiType, number>> {
+        const counts: Partial<Record<PiiType, number>> = {};
+        for (const finding of findings) {
+            counts[finding.type] = (counts[finding.type] ?? 0) + 1;
+        }
+        return counts;
+    }
+
+    /**
+     * Determines the action for a threat level, confidence and the detected patterns.
+     * 
+     * Requirements: 4.1, 4.3
+     */
+    private determineAction(
+        threatLevel: SecurityAnalysis['threatLevel'],
+        confidence: number,
+        patterns: ThreatPattern[] = []
+    ): PolicyAction {
+        // Some findings, such as data exfiltration, are blocked outright
+        if (patterns.some(p => p.severity === 'high' && this.config.blockedPatternTypes.includes(p.type))) {
+            return 'block';
+        }
+
+        // Dangerous threats with high confidence should be blocked
+        if (threatLevel === 'dangerous' && confidence >= this.config.blockThreshold) {
+            return 'block';
+        }
+
         // Dangerous threats with lower confidence or suspicious threats should warn
         if (threatLevel === 'dangerous' || 
             (threatLevel === 'suspicious' && confidence >= this.config.warnThreshold)) {
-            return {
-                action: 'warn',
-                reason: this.buildWarnReason(reasoning, detectedPatterns),
-                originalPrompt: prompt,
-                analysis
-            };
+            return 'warn';
         }
 
         // Safe prompts are allowed
-        return {
-            action: 'allow',
-            reason: 'Prompt passed security analysis',
-            originalPrompt: prompt,
-            analysis
-        };
+        return 'allow';
+    }
+
+    /**
+     * Reviews the analysis of an AI agent instruction file that was created or changed.
+     * The result is logged with the file path, and the user is notified if the
+     * file would be blocked or warned about as a prompt.
+     * 
+     * Requirements: 4.2, 4.4
+     * 
+     * @param uri URI of the instruction file
+     * @param filePath Workspace-relative path of the instruction file
+     * @param content Content that was analyzed
+     * @param analysis Security analysis of the content
+     * @param options Enforcement options
+     * @returns The action a prompt with this analysis would get
+     */
+    public async reviewInstructionFile(
+        uri: vscode.Uri,
+        filePath: string,
+        content: string,
+        analysis: SecurityAnalysis,
+        options?: EnforcementOptions
+    ): Promise<SecurityDecision['action']> {
+        const action = this.determineAction(analysis.threatLevel, analysis.confidence, analysis.detectedPatterns);
+        const patternTypes = [...new Set(analysis.detectedPatterns.map(p => p.type))];
+
+        this.logSecurityEvent({
+            id: this.generateEventId(),
+            timestamp: new Date(),
+            eventType: 'instruction_file',
+            promptHash: this.hashPrompt(content),
+            threatLevel: analysis.threatLevel,
+            confidence: analysis.confidence,
+            decision: action,
+            processingTime: analysis.processingTime,
+            findingTypes: patternTypes.length > 0 ? patternTypes : undefined,
+            signaturePacks: this.describeSignaturePacks(analysis.detectedPatterns),
+            filePath
+        });
+
+        if (action !== 'allow' && (options?.notifyUser ?? true)) {
+            const reason = action === 'block'
+                ? this.buildBlockReason(analysis.reasoning, analysis.detectedPatterns)
+                : this.buildWarnReason(analysis.reasoning, analysis.detectedPatterns);
+            await this.showInstructionFileNotification(uri, filePath, action, reason, analysis);
+        }
+
+        return action;
     }
 
     /**
@@ -153,7 +394,7 @@ export class Gatekeeper implements vscode.Disposable {
         const patternSummary = patternTypes.length > 0 
             ? `Detected patterns: ${patternTypes.join(', ')}. ` 
             : '';
-        return `${patternSummary}${reasoning}`;
+        return `${patternSummary}${this.buildSourceSummary(patterns)}${reasoning}`;
     }
 
     /**
@@ -164,7 +405,17 @@ export class Gatekeeper implements vscode.Disposable {
         const patternSummary = patternTypes.length > 0 
             ? `Suspicious patterns: ${patternTypes.join(', ')}. ` 
             : '';
-        return `${patternSummary}${reasoning}`;
+        return `${patternSummary}${this.buildSourceSummary(patterns)}${reasoning}`;
+    }
+
+    /**
+     * Builds a summary of the chat references findings came from.
+     */
+    private buildSourceSummary(patterns: SecurityAnalysis['detectedPatterns']): string {
+        const sources = [...new Set(patterns.filter(p => p.source).map(p => p.source))];
+        return sources.length > 0 
+            ? `Found in attached references: ${sources.join(', ')}. ` 
+            : '';
     }
 
     /**
@@ -182,6 +433,9 @@ export class Gatekeeper implements vscode.Disposable {
             case 'warn':
                 await this.showWarnNotification(decision);
                 break;
+            case 'sanitize':
+                await this.showSanitizeNotification(decision);
+                break;
             case 'allow':
                 // No notification for allowed prompts
                 break;
@@ -239,40 +493,148 @@ export class Gatekeeper implements vscode.Disposable {
         }
     }
 
+    /**
+     * Shows a notification for sanitized requests, with the diff of the changes.
+     */
+    private async showSanitizeNotification(decision: SecurityDecision): Promise<void> {
+        const message = `🛡️ Cloak: Prompt sanitized - ${decision.reason}`;
+
+        const selection = await vscode.window.showInformationMessage(
+            message,
+            'View Changes',
+            'View Details'
+        );
+
+        if (selection === 'View Changes' && decision.sanitization) {
+            const original = await vscode.workspace.openTextDocument({ content: decision.originalPrompt.content });
+            const sanitized = await vscode.workspace.openTextDocument({ content: decision.sanitization.prompt.content });
+            await vscode.commands.executeCommand('vscode.diff', original.uri, sanitized.uri, 'Cloak: Original ↔ Sanitized Prompt');
+        } else if (selection === 'View Details') {
+            this.showDecisionDetails(decision);
+        }
+    }
+
+    /**
+     * Shows a notification for an instruction file that failed analysis.
+     * 
+     * Requirements: 4.2
+     */
+    private async showInstructionFileNotification(
+        uri: vscode.Uri,
+        filePath: string,
+        action: SecurityDecision['action'],
+        reason: string,
+        analysis: SecurityAnalysis
+    ): Promise<void> {
+        const message = action === 'block'
+            ? `🛡️ Cloak: Instruction file ${filePath} may be poisoned - ${reason}`
+            : `🛡️ Cloak: Suspicious content in instruction file ${filePath} - ${reason}`;
+        const show = action === 'block' ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+
+        const selection = await show(message, 'Open File', 'View Details');
+
+        if (selection === 'Open File') {
+            await vscode.window.showTextDocument(uri, { preview: true });
+        } else if (selection === 'View Details') {
+            this.writeDetailsHeader(action, reason);
+            this.outputChannel.appendLine(`Instruction File: ${filePath}`);
+            this.outputChannel.appendLine('');
+            this.writeAnalysisDetails(analysis);
+            this.outputChannel.show();
+        }
+    }
+
     /**
      * Shows detailed information about a security decision in the output channel.
      */
     private showDecisionDetails(decision: SecurityDecision): void {
+        this.writeDetailsHeader(decision.action, decision.reason);
+        if (decision.flaggedReferences) {
+            this.outputChannel.appendLine(`Flagged References: ${decision.flaggedReferences.join(', ')}`);
+            this.outputChannel.appendLine('');
+        }
+        if (decision.piiFindings) {
+            const counts = Object.entries(this.countPii(decision.piiFindings)).map(([type, count]) => `${type} (${count})`);
+            this.outputChannel.appendLine(`Personal Data: ${counts.join(', ')}`);
+            this.outputChannel.appendLine('');
+        }
+        if (decision.sanitization) {
+            this.outputChannel.appendLine('─── Sanitized Prompt Changes ───');
+            this.outputChannel.appendLine(decision.sanitization.diff);
+            this.outputChannel.appendLine('');
+        }
+        this.writeAnalysisDetails(decision.analysis);
+        this.outputChannel.show();
+    }
+
+    /**
+     * Clears the output channel and writes the action and reason of a decision.
+     */
+    private writeDetailsHeader(action: SecurityDecision['action'], reason: string): void {
         this.outputChannel.clear();
         this.outputChannel.appendLine('═══════════════════════════════════════════════════════════');
         this.outputChannel.appendLine('                    SECURITY DECISION DETAILS');
         this.outputChannel.appendLine('═══════════════════════════════════════════════════════════');
         this.outputChannel.appendLine('');
-        this.outputChannel.appendLine(`Action: ${decision.action.toUpperCase()}`);
-        this.outputChannel.appendLine(`Reason: ${decision.reason}`);
+        this.outputChannel.appendLine(`Action: ${action.toUpperCase()}`);
+        this.outputChannel.appendLine(`Reason: ${reason}`);
         this.outputChannel.appendLine('');
+    }
+
+    /**
+     * Writes the results, detected patterns and reasoning of an analysis.
+     */
+    private writeAnalysisDetails(analysis: SecurityAnalysis): void {
         this.outputChannel.appendLine('─── Analysis Results ───');
-        this.outputChannel.appendLine(`Threat Level: ${decision.analysis.threatLevel}`);
-        this.outputChannel.appendLine(`Confidence: ${(decision.analysis.confidence * 100).toFixed(1)}%`);
-        this.outputChannel.appendLine(`Processing Time: ${decision.analysis.processingTime}ms`);
+        this.outputChannel.appendLine(`Threat Level: ${analysis.threatLevel}`);
+        this.outputChannel.appendLine(`Confidence: ${(analysis.confidence * 100).toFixed(1)}%`);
+        this.outputChannel.appendLine(`Processing Time: ${analysis.processingTime}ms`);
+        if (analysis.contributingTurns) {
+            this.outputChannel.appendLine(`Contributing Turns: ${analysis.contributingTurns.join(', ')}`);
+        }
+        if (analysis.analyzedWindows) {
+            this.outputChannel.appendLine(`Analyzed Windows: ${analysis.analyzedWindows}`);
+        }
+        if (analysis.oversized) {
+            this.outputChannel.appendLine('Oversized: too large for SLM analysis, handled by policy');
+        }
+        if (analysis.signaturePacks) {
+            const packs = analysis.signaturePacks.map(pack => `${pack.name} ${pack.version} (${pack.checksum.substring(0, 12)})`);
+            this.outputChannel.appendLine(`Signature Packs: ${packs.join(', ')}`);
+        }
         this.outputChannel.appendLine('');
         
-        if (decision.analysis.detectedPatterns.length > 0) {
+        if (analysis.detectedPatterns.length > 0) {
             this.outputChannel.appendLine('─── Detected Patterns ───');
-            for (const pattern of decision.analysis.detectedPatterns) {
+            for (const pattern of analysis.detectedPatterns) {
                 this.outputChannel.appendLine(`  • Type: ${pattern.type}`);
                 this.outputChannel.appendLine(`    Severity: ${pattern.severity}`);
                 this.outputChannel.appendLine(`    Pattern: ${pattern.pattern}`);
+                if (pattern.normalizedText) {
+                    this.outputChannel.appendLine(`    Normalized: ${pattern.normalizedText}`);
+                }
                 this.outputChannel.appendLine(`    Description: ${pattern.description}`);
+                if (pattern.ruleId) {
+                    const pack = pattern.signaturePack ? ` (${pattern.signaturePack.name} ${pattern.signaturePack.version})` : '';
+                    this.outputChannel.appendLine(`    Rule: ${pattern.ruleId}${pack}`);
+                }
+                if (pattern.turns) {
+                    this.outputChannel.appendLine(`    Turns: ${pattern.turns.join(', ')}`);
+                }
+                if (pattern.source) {
+                    this.outputChannel.appendLine(`    Source: ${pattern.source}`);
+                }
+                if (pattern.location) {
+                    this.outputChannel.appendLine(`    Location: characters ${pattern.location.start}-${pattern.location.end}`);
+                }
                 this.outputChannel.appendLine('');
             }
         }
 
         this.outputChannel.appendLine('─── Reasoning ───');
-        this.outputChannel.appendLine(decision.analysis.reasoning);
+        this.outputChannel.appendLine(analysis.reasoning);
         this.outputChannel.appendLine('');
         this.outputChannel.appendLine('═══════════════════════════════════════════════════════════');
-        this.outputChannel.show();
     }
 
 
@@ -286,48 +648,186 @@ export class Gatekeeper implements vscode.Disposable {
      * @returns Updated decision with override flag if confirmed
      */
     public async handleUserOverride(decision: SecurityDecision): Promise<SecurityDecision | null> {
-        // Show explicit confirmation dialog
-        const confirmation = await vscode.window.showWarningMessage(
+        const overriddenDecision = await this.confirmOverride(
+            decision,
             '⚠️ Security Override Confirmation\n\n' +
             'You are about to override a security block. This prompt was flagged as potentially dangerous.\n\n' +
             `Threat Level: ${decision.analysis.threatLevel}\n` +
             `Reason: ${decision.reason}\n\n` +
             'Are you sure you want to proceed?',
-            { modal: true },
-            'Yes, I understand the risks',
-            'Cancel'
+            ['Yes, I understand the risks', 'Cancel'],
+            'User override'
         );
 
-        if (confirmation === 'Yes, I understand the risks') {
-            // Log the override event
-            this.logSecurityEvent({
-                id: this.generateEventId(),
-                timestamp: new Date(),
-                eventType: 'override',
-                promptHash: this.hashPrompt(decision.originalPrompt.content),
-                threatLevel: decision.analysis.threatLevel,
-                confidence: decision.analysis.confidence,
-                decision: 'allow',
-                userOverride: true,
-                processingTime: decision.analysis.processingTime
-            });
-
-            // Return updated decision with override flag
-            const overriddenDecision: SecurityDecision = {
-                ...decision,
-                action: 'allow',
-                userOverride: true,
-                reason: `User override: ${decision.reason}`
-            };
-
+        if (overriddenDecision) {
             vscode.window.showInformationMessage(
                 '🛡️ Cloak: Security override applied. Proceeding with caution.'
             );
+        }
+
+        return overriddenDecision;
+    }
+
+    /**
+     * Asks the user to confirm a warned prompt before it is forwarded.
+     * Confirmation is logged as an override event.
+     * 
+     * Requirements: 4.5
+     * 
+     * @param decision The warn decision awaiting confirmation
+     * @returns Updated decision with override flag if confirmed, null otherwise
+     */
+    public async confirmWarnedPrompt(decision: SecurityDecision): Promise<SecurityDecision | null> {
+        return this.confirmOverride(
+            decision,
+            '🛡️ Cloak: This prompt looks suspicious.\n\n' +
+            `Threat Level: ${decision.analysis.threatLevel}\n` +
+            `Reason: ${decision.reason}\n\n` +
+            'Do you want to send it to the language model anyway?',
+            ['Send Anyway'],
+            'User confirmed'
+        );
+    }
 
-            return overriddenDecision;
+    /**
+     * Asks for explicit confirmation to let a blocked or warned prompt through,
+     * and logs the confirmation as an override event.
+     * 
+     * @param decision The decision to override
+     * @param message Text of the modal confirmation dialog
+     * @param choices Dialog buttons, the first of which confirms
+     * @param reasonPrefix Prefix of the reason of the overridden decision
+     * @returns Updated decision with override flag if confirmed, null otherwise
+     */
+    private async confirmOverride(
+        decision: SecurityDecision,
+        message: string,
+        choices: [string, ...string[]],
+        reasonPrefix: string
+    ): Promise<SecurityDecision | null> {
+        const confirmation = await vscode.window.showWarningMessage(message, { modal: true }, ...choices);
+        if (confirmation !== choices[0]) {
+            return null;
         }
 
-        return null;
+        this.logSecurityEvent({
+            id: this.generateEventId(),
+            timestamp: new Date(),
+            eventType: 'override',
+            promptHash: this.hashPrompt(decision.originalPrompt.content),
+            threatLevel: decision.analysis.threatLevel,
+            confidence: decision.analysis.confidence,
+            decision: 'allow',
+            userOverride: true,
+            processingTime: decision.analysis.processingTime
+        });
+
+        return {
+            ...decision,
+            action: 'allow',
+            userOverride: true,
+            reason: `${reasonPrefix}: ${decision.reason}`
+        };
+    }
+
+    /**
+     * Logs findings of the response filter as a separate audit event.
+     * The event is linked to the prompt by its hash; response text is never stored.
+     * 
+     * Requirements: 4.4
+     * 
+     * @param prompt The prompt whose response was filtered
+     * @param findings Findings detected in the model output
+     * @param processingTime Time spent streaming and filtering the response
+     */
+    public logResponseFindings(
+        prompt: InterceptedPrompt,
+        findings: ResponseFinding[],
+        processingTime: number
+    ): void {
+        const actions = [...new Set(findings.map(f => f.action))];
+        const highSeverity = findings.some(f => f.severity === 'high');
+
+        this.logSecurityEvent({
+            id: this.generateEventId(),
+            timestamp: new Date(),
+            eventType: 'response_filter',
+            promptHash: this.hashPrompt(prompt.content),
+            threatLevel: highSeverity ? 'dangerous' : 'suspicious',
+            confidence: 1,
+            decision: actions.join(','),
+            processingTime,
+            findingTypes: [...new Set(findings.map(f => f.type))]
+        });
+    }
+
+    /**
+     * Logs the secrets redacted from a forwarded prompt as an audit event.
+     * The event records the secret types only; secret values are never stored.
+     * 
+     * Requirements: 4.4
+     * 
+     * @param prompt The prompt the secrets were redacted from
+     * @param findings Secrets replaced with placeholders before forwarding
+     * @param processingTime Time spent forwarding the prompt
+     */
+    public logSecretRedactions(
+        prompt: InterceptedPrompt,
+        findings: SecretFinding[],
+        processingTime: number
+    ): void {
+        this.logSecurityEvent({
+            id: this.generateEventId(),
+            timestamp: new Date(),
+            eventType: 'secret_redaction',
+            promptHash: this.hashPrompt(prompt.content),
+            threatLevel: 'suspicious',
+            confidence: 1,
+            decision: 'redact',
+            processingTime,
+            findingTypes: [...new Set(findings.map(f => f.type))]
+        });
+    }
+
+    /**
+     * Logs the findings of a git scan in one file as an audit event.
+     * The event records the file and the commit the lines were added in;
+     * findings in staged changes have no commit.
+     * 
+     * Requirements: 4.4
+     * 
+     * @param result Scan result of the file
+     * @param processingTime Duration of the scan
+     */
+    public logGitScanResult(result: FileScanResult, processingTime: number): void {
+        const flaggedText = result.findings.map(f => f.pattern.pattern).join('\n');
+
+        this.logSecurityEvent({
+            id: this.generateEventId(),
+            timestamp: new Date(),
+            eventType: 'git_scan',
+            promptHash: this.hashPrompt(flaggedText),
+            threatLevel: result.threatLevel,
+            confidence: 1,
+            decision: this.determineAction(result.threatLevel, 1, result.findings.map(f => f.pattern)),
+            processingTime,
+            findingTypes: [...new Set(result.findings.map(f => f.pattern.type))],
+            signaturePacks: this.describeSignaturePacks(result.findings.map(f => f.pattern)),
+            filePath: result.filePath,
+            commitSha: result.commitSha
+        });
+    }
+
+    /**
+     * Lists the signature packs whose rules matched, as `name@version`.
+     *
+     * @returns The packs, or undefined if no pack rule matched
+     */
+    private describeSignaturePacks(patterns: ThreatPattern[]): string[] | undefined {
+        const packs = [...new Set(patterns
+            .filter(pattern => pattern.signaturePack)
+            .map(pattern => `${pattern.signaturePack?.name}@${pattern.signaturePack?.version}`))];
+        return packs.length > 0 ? packs : undefined;
     }
 
     /**
@@ -362,7 +862,11 @@ export class Gatekeeper implements vscode.Disposable {
         this.outputChannel.appendLine(
             `[${event.timestamp.toISOString()}] ${event.eventType.toUpperCase()}: ` +
             `${event.threatLevel} (${(event.confidence * 100).toFixed(1)}% confidence) - ` +
-            `Decision: ${event.decision}${event.userOverride ? ' (USER OVERRIDE)' : ''}`
+            `Decision: ${event.decision}${event.userOverride ? ' (USER OVERRIDE)' : ''}` +
+            `${event.findingTypes ? ` [${event.findingTypes.join(', ')}]` : ''}` +
+            `${event.signaturePacks ? ` (signatures: ${event.signaturePacks.join(', ')})` : ''}` +
+            `${event.filePath ? ` in ${event.filePath}` : ''}` +
+            `${event.commitSha ? ` @ ${event.commitSha.substring(0, 7)}` : ''}`
         );
     }
 
@@ -415,6 +919,11 @@ export class Gatekeeper implements vscode.Disposable {
         overrideCount: number;
         warnCount: number;
         errorCount: number;
+        responseFilterCount: number;
+        instructionFileCount: number;
+        gitScanCount: number;
+        secretRedactionCount: number;
+        sanitizeCount: number;
     } {
         return {
             totalEvents: this.auditLog.length,
@@ -422,7 +931,12 @@ export class Gatekeeper implements vscode.Disposable {
             allowedCount: this.auditLog.filter(e => e.eventType === 'allow').length,
             overrideCount: this.auditLog.filter(e => e.eventType === 'override').length,
             warnCount: this.auditLog.filter(e => e.decision === 'warn').length,
-            errorCount: this.auditLog.filter(e => e.eventType === 'error').length
+            errorCount: this.auditLog.filter(e => e.eventType === 'error').length,
+            responseFilterCount: this.auditLog.filter(e => e.eventType === 'response_filter').length,
+            instructionFileCount: this.auditLog.filter(e => e.eventType === 'instruction_file').length,
+            gitScanCount: this.auditLog.filter(e => e.eventType === 'git_scan').length,
+            secretRedactionCount: this.auditLog.filter(e => e.eventType === 'secret_redaction').length,
+            sanitizeCount: this.auditLog.filter(e => e.eventType === 'sanitize').length
         };
     }
 
@@ -437,6 +951,8 @@ export class Gatekeeper implements vscode.Disposable {
                 return 'allow';
             case 'warn':
                 return 'analysis'; // Warn is logged as analysis since it doesn't block
+            case 'sanitize':
+                return 'sanitize';
             default:
                 return 'analysis';
         }
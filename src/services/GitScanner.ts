@@ -0,0 +1,572 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { FileScanResult, WorkspaceScanReport } from '../types';
+import { API, GitExtension, Repository } from '../types/git';
+import { WorkspaceScanner } from './WorkspaceScanner';
+import { Gatekeeper } from './Gatekeeper';
+import { ConfigurationService } from './ConfigurationService';
+
+/**
+ * What a git scan analyzes
+ * - staged: lines added in the staged diff
+ * - incoming: commits on the upstream branch that are not merged yet
+ * - recent: the latest commits on the current branch
+ */
+export type GitScanTarget = 'staged' | 'incoming' | 'recent';
+
+/**
+ * Handles reports of automatic scans
+ */
+export type GitScanReportHandler = (report: WorkspaceScanReport, title: string) => void;
+
+/**
+ * Lines added to a file by a diff, keyed by zero-based line in the new file
+ */
+interface AddedLines {
+    filePath: string;
+    lines: Map<number, string>;
+}
+
+/**
+ * Commits and staged diff last seen for a repository in automatic mode
+ */
+interface RepositorySnapshot {
+    head?: string;
+    branch?: string;
+    upstream?: string;
+    stagedDiffHash?: string;
+    reportedStagedFindings: Set<string>;
+}
+
+/**
+ * Upper bound on the number of commits analyzed by a single scan
+ */
+const MAX_COMMITS = 50;
+
+/**
+ * Number of commits analyzed by a scan of recent commits
+ */
+const RECENT_COMMITS = 20;
+
+/**
+ * Delay after the last repository change before an automatic scan runs
+ */
+const AUTO_SCAN_DEBOUNCE_MS = 1500;
+
+/**
+ * GitScanner analyzes lines added by git, so injected instructions and hidden
+ * content are caught when they are staged or arrive with a pull or fetch.
+ *
+ * Responsibilities:
+ * - Access repositories through the API of the built-in Git extension
+ * - Run local threat pattern detection on the added lines of staged diffs and commits
+ * - Report findings with file, line and commit, and log them to the audit log
+ * - Optionally scan automatically when the index, HEAD or upstream changes
+ */
+export class GitScanner implements vscode.Disposable {
+    private git: API | undefined;
+    private autoScan: boolean = false;
+    private autoScanDisposables: vscode.Disposable[] = [];
+    private repositoryDisposables: Map<string, vscode.Disposable> = new Map();
+    private snapshots: Map<string, RepositorySnapshot> = new Map();
+    private pendingScans: Map<string, NodeJS.Timeout> = new Map();
+    private reportHandler: GitScanReportHandler | undefined;
+    private maxFileSize: number;
+
+    constructor(
+        private readonly workspaceScanner: WorkspaceScanner,
+        private readonly gatekeeper: Gatekeeper,
+        configService?: ConfigurationService
+    ) {
+        if (configService) {
+            this.maxFileSize = configService.getScanMaxFileSize();
+        } else {
+            // Fall back to direct VS Code config access
+            const config = vscode.workspace.getConfiguration('cloak');
+            this.maxFileSize = config.get<number>('scanMaxFileSize', 512);
+        }
+    }
+
+    /**
+     * Sets the handler that presents reports of automatic scans with findings.
+     *
+     * @param handler The report handler
+     */
+    public setReportHandler(handler: GitScanReportHandler): void {
+        this.reportHandler = handler;
+    }
+
+    /**
+     * Gets the repositories known to the Git extension.
+     *
+     * @returns The open repositories, or an empty list if Git is unavailable
+     */
+    public async getRepositories(): Promise<Repository[]> {
+        const git = await this.getGitApi();
+        return git?.repositories ?? [];
+    }
+
+    /**
+     * Starts or stops scanning automatically when repositories change.
+     *
+     * @param enabled Whether automatic scans run
+     * @returns false if automatic scans were requested but Git is unavailable
+     */
+    public async setAutoScan(enabled: boolean): Promise<boolean> {
+        if (enabled === this.autoScan) {
+            return true;
+        }
+
+        if (!enabled) {
+            this.autoScan = false;
+            this.stopAutoScan();
+            return true;
+        }
+
+        const git = await this.getGitApi();
+        if (!git) {
+            return false;
+        }
+
+        this.autoScan = true;
+        this.autoScanDisposables.push(
+            git.onDidOpenRepository(repository => this.watchRepository(repository)),
+            git.onDidCloseRepository(repository => this.unwatchRepository(repository))
+        );
+        git.repositories.forEach(repository => this.watchRepository(repository));
+        return true;
+    }
+
+    /**
+     * Checks if automatic scans run.
+     */
+    public isAutoScanEnabled(): boolean {
+        return this.autoScan;
+    }
+
+    /**
+     * Scans a repository.
+     *
+     * @param repository The repository to scan
+     * @param target What to scan
+     * @param token Cancellation token
+     * @returns Report with the files that contain findings
+     */
+    public async scan(
+        repository: Repository,
+        target: GitScanTarget,
+        token?: vscode.CancellationToken
+    ): Promise<WorkspaceScanReport> {
+        switch (target) {
+            case 'staged':
+                return this.scanStaged(repository);
+            case 'incoming':
+                return this.scanCommits(repository, 'HEAD..@{upstream}', token);
+            case 'recent':
+                return this.scanCommits(repository, undefined, token, RECENT_COMMITS);
+        }
+    }
+
+    /**
+     * Scans the lines added in the staged diff.
+     */
+    private async scanStaged(repository: Repository): Promise<WorkspaceScanReport> {
+        const report = this.createReport();
+        const diff = await repository.diff(true);
+        this.scanPatch(repository, diff, undefined, report);
+
+        report.duration = Date.now() - report.startedAt.getTime();
+        this.logResults(report);
+        return report;
+    }
+
+    /**
+     * Scans the lines added by each commit in a range.
+     *
+     * @param repository The repository to scan
+     * @param range Revision range to scan, or undefined for the commits on HEAD
+     * @param token Cancellation token
+     * @param maxEntries Number of commits to scan at most
+     */
+    private async scanCommits(
+        repository: Repository,
+        range: string | undefined,
+        token?: vscode.CancellationToken,
+        maxEntries: number = MAX_COMMITS
+    ): Promise<WorkspaceScanReport> {
+        const report = this.createReport();
+        const commits = await repository.log({ range, maxEntries });
+
+        for (const commit of commits) {
+            if (token?.isCancellationRequested) {
+                report.cancelled = true;
+                break;
+            }
+
+            // Root commits have no parent to diff against
+            const parent = commit.parents[0];
+            if (!parent) {
+                continue;
+            }
+
+            try {
+                const patch = await repository.diffBetween(parent, commit.hash, repository.rootUri.fsPath);
+                this.scanPatch(repository, patch, commit.hash, report);
+            } catch (error) {
+                console.error(`Failed to scan commit ${commit.hash}:`, error);
+            }
+        }
+
+        report.duration = Date.now() - report.startedAt.getTime();
+        this.logResults(report);
+        return report;
+    }
+
+    /**
+     * Scans the added lines of every file in a patch and adds the results to a report.
+     */
+    private scanPatch(
+        repository: Repository,
+        patch: string,
+        commitSha: string | undefined,
+        report: WorkspaceScanReport
+    ): void {
+        for (const file of this.parseAddedLines(patch)) {
+            const result = this.scanAddedLines(repository, file, commitSha);
+            if (result === undefined) {
+                report.filesSkipped++;
+                continue;
+            }
+
+            report.filesScanned++;
+            if (result.findings.length > 0) {
+                report.results.push(result);
+            }
+        }
+    }
+
+    /**
+     * Scans the added lines of a file. The lines are placed at their line numbers
+     * in otherwise empty text, so findings are located in the new file and
+     * unrelated hunks stay separate paragraphs.
+     *
+     * @returns The scan result, or undefined if the added text is too large or binary
+     */
+    private scanAddedLines(
+        repository: Repository,
+        file: AddedLines,
+        commitSha: string | undefined
+    ): FileScanResult | undefined {
+        const addedText = [...file.lines.values()].join('\n');
+        if (addedText.length > this.maxFileSize * 1024 || addedText.includes('\u0000')) {
+            return undefined;
+        }
+
+        const lastLine = Math.max(...file.lines.keys());
+        const content = Array.from({ length: lastLine + 1 }, (_, line) => file.lines.get(line) ?? '').join('\n');
+
+        const fileUri = vscode.Uri.joinPath(repository.rootUri, file.filePath);
+        // Findings in commits open the file as of that commit
+        const uri = commitSha && this.git ? this.git.toGitUri(fileUri, commitSha) : fileUri;
+        const result = this.workspaceScanner.scanContent(content, uri, vscode.workspace.asRelativePath(fileUri));
+
+        if (commitSha) {
+            result.commitSha = commitSha;
+            result.findings.forEach(finding => finding.commitSha = commitSha);
+        }
+
+        return result;
+    }
+
+    /**
+     * Collects the added lines per file from a unified diff.
+     *
+     * @param patch Output of `git diff`
+     * @returns Files with at least one added line
+     */
+    private parseAddedLines(patch: string): AddedLines[] {
+        const files: AddedLines[] = [];
+        let current: AddedLines | undefined;
+        let inHeader = false;
+        let newLine = 0;
+
+        for (const rawLine of patch.split('\n')) {
+            const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+            if (line.startsWith('diff --git ')) {
+                current = undefined;
+                inHeader = true;
+                continue;
+            }
+
+            if (inHeader) {
+                if (line.startsWith('+++ ')) {
+                    const target = line.substring(4).replace(/^"|"$/g, '');
+                    if (target !== '/dev/null') {
+                        current = { filePath: target.replace(/^b\//, ''), lines: new Map() };
+                    }
+                    continue;
+                }
+                if (!line.startsWith('@@')) {
+                    continue;
+                }
+                inHeader = false;
+            }
+
+            const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+            if (hunk) {
+                newLine = parseInt(hunk[1], 10) - 1;
+                continue;
+            }
+
+            if (!current) {
+                continue;
+            }
+
+            // Removed lines and "\ No newline at end of file" do not exist in the new file
+            if (line.startsWith('+')) {
+                if (current.lines.size === 0) {
+                    files.push(current);
+                }
+                current.lines.set(newLine, line.substring(1));
+                newLine++;
+            } else if (line.startsWith(' ')) {
+                newLine++;
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Logs every file with findings to the audit log.
+     */
+    private logResults(report: WorkspaceScanReport): void {
+        for (const result of report.results) {
+            this.gatekeeper.logGitScanResult(result, report.duration);
+        }
+    }
+
+    /**
+     * Starts watching a repository for automatic scans.
+     */
+    private watchRepository(repository: Repository): void {
+        const key = repository.rootUri.toString();
+        if (this.repositoryDisposables.has(key)) {
+            return;
+        }
+
+        this.snapshots.set(key, {
+            head: repository.state.HEAD?.commit,
+            branch: repository.state.HEAD?.name,
+            upstream: repository.state.HEAD?.upstream?.commit,
+            reportedStagedFindings: new Set()
+        });
+        this.repositoryDisposables.set(key, repository.state.onDidChange(() => this.scheduleAutoScan(repository)));
+
+        if (repository.state.indexChanges.length > 0) {
+            this.scheduleAutoScan(repository);
+        }
+    }
+
+    /**
+     * Stops watching a closed repository.
+     */
+    private unwatchRepository(repository: Repository): void {
+        const key = repository.rootUri.toString();
+        this.repositoryDisposables.get(key)?.dispose();
+        this.repositoryDisposables.delete(key);
+        this.snapshots.delete(key);
+
+        const pending = this.pendingScans.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingScans.delete(key);
+        }
+    }
+
+    /**
+     * Schedules an automatic scan after the repository stopped changing.
+     */
+    private scheduleAutoScan(repository: Repository): void {
+        const key = repository.rootUri.toString();
+        const pending = this.pendingScans.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        this.pendingScans.set(key, setTimeout(() => {
+            this.pendingScans.delete(key);
+            this.runAutoScan(repository).catch(error => {
+                console.error(`Automatic git scan of ${repository.rootUri.fsPath} failed:`, error);
+            });
+        }, AUTO_SCAN_DEBOUNCE_MS));
+    }
+
+    /**
+     * Scans what changed in a repository since the last automatic scan:
+     * commits that arrived on the upstream branch or were pulled into HEAD,
+     * and the staged diff.
+     */
+    private async runAutoScan(repository: Repository): Promise<void> {
+        const snapshot = this.snapshots.get(repository.rootUri.toString());
+        if (!this.autoScan || !snapshot) {
+            return;
+        }
+
+        const head = repository.state.HEAD;
+        const incomingRange = this.getIncomingRange(snapshot, head?.commit, head?.name, head?.upstream?.commit);
+        snapshot.head = head?.commit;
+        snapshot.branch = head?.name;
+        snapshot.upstream = head?.upstream?.commit;
+
+        if (incomingRange) {
+            const report = await this.scanCommits(repository, incomingRange);
+            if (report.results.length > 0) {
+                this.reportHandler?.(report, '🛡️ Cloak Git Scan: Incoming Commits');
+            }
+        }
+
+        await this.autoScanStaged(repository, snapshot);
+    }
+
+    /**
+     * Determines the commits that arrived since the last snapshot.
+     * A fetch or pull moves the upstream branch; the commits between its old and
+     * new position are incoming. A push also moves it, but only to commits that
+     * were already in HEAD. Without upstream information, commits pulled into
+     * the current branch are used instead.
+     */
+    private getIncomingRange(
+        snapshot: RepositorySnapshot,
+        head: string | undefined,
+        branch: string | undefined,
+        upstream: string | undefined
+    ): string | undefined {
+        if (snapshot.upstream && upstream && snapshot.upstream !== upstream) {
+            const pushed = upstream === head && snapshot.head === head;
+            return pushed ? undefined : `${snapshot.upstream}..${upstream}`;
+        }
+
+        if (!upstream && snapshot.head && head && snapshot.head !== head && snapshot.branch === branch) {
+            return `${snapshot.head}..${head}`;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Scans the staged diff if it changed, and reports findings that were not reported before.
+     */
+    private async autoScanStaged(repository: Repository, snapshot: RepositorySnapshot): Promise<void> {
+        if (repository.state.indexChanges.length === 0) {
+            snapshot.stagedDiffHash = undefined;
+            snapshot.reportedStagedFindings.clear();
+            return;
+        }
+
+        const diff = await repository.diff(true);
+        const diffHash = crypto.createHash('sha256').update(diff).digest('hex');
+        if (diffHash === snapshot.stagedDiffHash) {
+            return;
+        }
+        snapshot.stagedDiffHash = diffHash;
+
+        const report = this.createReport();
+        this.scanPatch(repository, diff, undefined, report);
+        report.duration = Date.now() - report.startedAt.getTime();
+
+        const findingKeys = report.results.flatMap(result =>
+            result.findings.map(finding => `${finding.filePath}:${finding.pattern.type}:${finding.pattern.pattern}`)
+        );
+        const hasNewFindings = findingKeys.some(key => !snapshot.reportedStagedFindings.has(key));
+        snapshot.reportedStagedFindings = new Set(findingKeys);
+
+        if (hasNewFindings) {
+            this.logResults(report);
+            this.reportHandler?.(report, '🛡️ Cloak Git Scan: Staged Changes');
+        }
+    }
+
+    /**
+     * Stops all automatic scans.
+     */
+    private stopAutoScan(): void {
+        for (const timeout of this.pendingScans.values()) {
+            clearTimeout(timeout);
+        }
+        this.pendingScans.clear();
+
+        for (const disposable of this.repositoryDisposables.values()) {
+            disposable.dispose();
+        }
+        this.repositoryDisposables.clear();
+        this.snapshots.clear();
+
+        for (const disposable of this.autoScanDisposables) {
+            disposable.dispose();
+        }
+        this.autoScanDisposables = [];
+    }
+
+    /**
+     * Gets the API of the built-in Git extension, activating it if needed.
+     *
+     * @returns The Git API, or undefined if the extension is missing or disabled
+     */
+    private async getGitApi(): Promise<API | undefined> {
+        if (this.git) {
+            return this.git;
+        }
+
+        const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+        if (!extension) {
+            return undefined;
+        }
+
+        try {
+            const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+            if (!gitExtension.enabled) {
+                return undefined;
+            }
+            this.git = gitExtension.getAPI(1);
+            return this.git;
+        } catch (error) {
+            console.error('Failed to activate the Git extension:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Creates an empty report for a git scan.
+     */
+    private createReport(): WorkspaceScanReport {
+        return {
+            startedAt: new Date(),
+            duration: 0,
+            filesScanned: 0,
+            filesSkipped: 0,
+            usedSlm: false,
+            cancelled: false,
+            results: []
+        };
+    }
+
+    /**
+     * Updates the size limit for the added text of a file.
+     * Requirements: 8.4 - Hot reloading support
+     *
+     * @param maxFileSize Maximum size in KB
+     */
+    public updateMaxFileSize(maxFileSize: number): void {
+        this.maxFileSize = maxFileSize;
+    }
+
+    /**
+     * Disposes of repository listeners.
+     */
+    public dispose(): void {
+        this.autoScan = false;
+        this.stopAutoScan();
+    }
+}
@@ -0,0 +1,210 @@
+import { ThreatPattern } from '../types';
+
+/**
+ * Kind of text region that markdown or HTML does not render
+ * - html_comment: text inside <!-- -->
+ * - collapsed_details: the body of a <details> block that is closed by default
+ * - hidden_element: an element hidden with the hidden attribute or with CSS
+ *   (display:none, visibility:hidden, zero size or opacity, white text)
+ * - alt_text: image alt text, shown only when the image cannot be loaded
+ * - link_title: title of a link or element, shown only as a tooltip
+ * - link_definition: reference-style link definition such as `[note]: # (text)`
+ */
+export type HiddenRegionKind =
+    | 'html_comment'
+    | 'collapsed_details'
+    | 'hidden_element'
+    | 'alt_text'
+    | 'link_title'
+    | 'link_definition';
+
+/**
+ * Text region that is not rendered, located in the original text
+ */
+export interface HiddenRegion {
+    kind: HiddenRegionKind;
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Readable name of each kind of region, for descriptions
+ */
+const KIND_LABELS: Record<HiddenRegionKind, string> = {
+    html_comment: 'an HTML comment',
+    collapsed_details: 'a collapsed <details> block',
+    hidden_element: 'a hidden element',
+    alt_text: 'image alt text',
+    link_title: 'a link title',
+    link_definition: 'a reference-style link definition'
+};
+
+/**
+ * Markup that hides text, with the capture group holding the hidden text
+ */
+const HIDDEN_MARKUP: Array<[HiddenRegionKind, RegExp]> = [
+    ['html_comment', /<!--([\s\S]*?)-->/dg],
+    ['collapsed_details', /<details\b(?![^>]*\bopen\b)[^>]*>(?:\s*<summary\b[^>]*>[\s\S]*?<\/summary>)?([\s\S]*?)<\/details>/dgi],
+    ['alt_text', /!\[([^\]]+)\]\(/dg],
+    ['alt_text', /<img\b[^>]*?\balt\s*=\s*"([^"]+)"/dgi],
+    ['alt_text', /<img\b[^>]*?\balt\s*=\s*'([^']+)'/dgi],
+    ['link_title', /\]\(\s*<?[^\s)>]*>?\s+"([^"]+)"\s*\)/dg],
+    ['link_title', /\]\(\s*<?[^\s)>]*>?\s+'([^']+)'\s*\)/dg],
+    ['link_title', /<\w+\b[^>]*?\btitle\s*=\s*"([^"]+)"/dgi],
+    ['link_title', /<\w+\b[^>]*?\btitle\s*=\s*'([^']+)'/dgi],
+    ['link_definition', /^ {0,3}(\[(?!\^)[^\]]+\]:.*)$/dgm]
+];
+
+/**
+ * Elements with inline markup that keeps their content from being seen
+ */
+const HIDDEN_ELEMENT = /<(\w+)\b([^>]*)>([\s\S]*?)<\/\1\s*>/dg;
+const HIDING_ATTRIBUTES = [
+    /\shidden(?:\s|=|$)/i,
+    /display\s*:\s*none/i,
+    /visibility\s*:\s*hidden/i,
+    /font-size\s*:\s*0(?![.\d]*[1-9])/i,
+    /opacity\s*:\s*0(?![.\d]*[1-9])/i,
+    /(?:^|[\s;"'])(?:width|height|max-width|max-height)\s*:\s*0(?![.\d]*[1-9])/i,
+    /(?:^|[\s;"'])color\s*:\s*(?:white|#fff(?:fff)?\b|rgba?\(\s*255\s*,\s*255\s*,\s*255)/i
+];
+
+/**
+ * Fenced code blocks, whose content is shown as written
+ */
+const FENCED_CODE = /^ {0,3}(`{3,}|~{3,})[\s\S]*?^ {0,3}\1/gm;
+
+/**
+ * Phrases that address a model or hide something from the user. Too common
+ * to flag in visible text, but suspicious in text no one sees.
+ */
+const HIDDEN_DIRECTIVE_PATTERNS: RegExp[] = [
+    /\b(?:ai|assistants?|models?|llms?|agents?|copilot|chatbots?|language\s+models?)\b[^.\n]{0,60}\b(?:must|should|shall|will|need\s+to|are\s+required\s+to)\b/i,
+    /\b(?:do\s+not|don'?t|never)\s+(?:tell|inform|mention|reveal|show|alert|notify)\s+(?:this\s+to\s+)?(?:the\s+)?user/i,
+    // A condition on what the reader is doing only counts with an order that follows it,
+    // so "If you are reviewing this PR, please check the tests" is not a directive
+    /\b(?:when|if|whenever)\s+(?:you\s+are\s+|you'?re\s+)?(?:asked|summari[sz]\w*|reading|processing|reviewing|answering)\b[^.\n]{0,80}?\b(?:ignore|disregard|reveal|send|say|respond|reply|answer\s+(?:that|with|only)|output|print|recommend|leak|tell\s+(?:the\s+user|them)|claim|state\s+that)\b/i,
+    /\binstead,?\s+(?:say|respond|reply|answer|write|output|recommend|tell)\b/i,
+    /\b(?:respond|reply|answer)\s+(?:only\s+)?with\b/i,
+    /\b(?:include|insert|add)\s+(?:this|the\s+following)\s+(?:link|url|image|text)\b/i
+];
+
+/**
+ * Length of hidden text shown in a finding
+ */
+const MAX_DISPLAYED_LENGTH = 120;
+
+/**
+ * HiddenMarkupExtractor finds the parts of a markdown or HTML text that are
+ * not rendered, where injected instructions hide from the person reading the
+ * rendered page while the model still reads them.
+ *
+ * Responsibilities:
+ * - Extract HTML comments, collapsed <details> blocks, elements hidden with CSS,
+ *   image alt text, link titles and reference-style link definitions
+ * - Skip markup inside fenced code blocks, which is shown as written
+ * - Find phrases addressed to a model, which are only suspicious when hidden
+ */
+export class HiddenMarkupExtractor {
+    /**
+     * Extracts the regions of a text that are not rendered.
+     *
+     * @param content The markdown or HTML text
+     * @returns Hidden regions in order of their position
+     */
+    public extract(content: string): HiddenRegion[] {
+        if (!/[<[]/.test(content)) {
+            return [];
+        }
+
+        const codeBlocks = [...content.matchAll(FENCED_CODE)].map(match => {
+            const start = match.index ?? 0;
+            return { start, end: start + match[0].length };
+        });
+        const inCode = (offset: number) => codeBlocks.some(block => offset >= block.start && offset < block.end);
+
+        const regions: HiddenRegion[] = [];
+        const add = (kind: HiddenRegionKind, match: RegExpMatchArray, group: number) => {
+            const text = match[group];
+            const [start, end] = match.indices?.[group] ?? [0, 0];
+            if (text?.trim() && !inCode(match.index ?? 0)) {
+                regions.push({ kind, text, start, end });
+            }
+        };
+
+        for (const [kind, regex] of HIDDEN_MARKUP) {
+            for (const match of content.matchAll(regex)) {
+                add(kind, match, 1);
+            }
+        }
+
+        for (const match of content.matchAll(HIDDEN_ELEMENT)) {
+            if (HIDING_ATTRIBUTES.some(attribute => attribute.test(match[2]))) {
+                add('hidden_element', match, 3);
+            }
+        }
+
+        return regions.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Blanks out the hidden regions of a text, keeping offsets and line breaks.
+     *
+     * @param content The original text
+     * @param regions Hidden regions of the text
+     * @returns The text as rendered, with hidden regions replaced by spaces
+     */
+    public getVisibleText(content: string, regions: HiddenRegion[]): string {
+        let visible = content;
+        for (const region of regions) {
+            const blank = region.text.replace(/[^\n]/g, ' ');
+            visible = visible.substring(0, region.start) + blank + visible.substring(region.end);
+        }
+        return visible;
+    }
+
+    /**
+     * Finds phrases addressed to a model, such as "do not tell the user".
+     *
+     * @param text Text of a hidden region
+     * @returns The matched phrases
+     */
+    public findDirectives(text: string): string[] {
+        const directives: string[] = [];
+        for (const regex of HIDDEN_DIRECTIVE_PATTERNS) {
+            const match = text.match(regex);
+            if (match) {
+                directives.push(match[0]);
+            }
+        }
+        return directives;
+    }
+
+    /**
+     * Converts a hidden region with instructions to a threat pattern.
+     *
+     * @param region The hidden region
+     * @param evidence Instructions found in the region
+     * @returns Threat pattern of type hidden_instruction located at the region
+     */
+    public toThreatPattern(region: HiddenRegion, evidence: string[]): ThreatPattern {
+        const text = region.text.trim().replace(/\s+/g, ' ');
+        return {
+            type: 'hidden_instruction',
+            pattern: text.length > MAX_DISPLAYED_LENGTH ? `${text.substring(0, MAX_DISPLAYED_LENGTH)}…` : text,
+            severity: 'high',
+            description: `Instructions hidden in ${KIND_LABELS[region.kind]} that the rendered text does not show: ${evidence.join('; ')}`,
+            location: { start: region.start, end: region.end }
+        };
+    }
+
+    /**
+     * Gets a readable name for the kind of a region, for descriptions.
+     *
+     * @param kind The kind of region
+     */
+    public getKindLabel(kind: HiddenRegionKind): string {
+        return KIND_LABELS[kind];
+    }
+}
@@ -0,0 +1,282 @@
+import { ThreatPattern } from '../types';
+
+/**
+ * Kind of invisible character sequence
+ * - tag_characters: Unicode tag characters (U+E0000 block) that spell out hidden ASCII text
+ * - variation_selectors: runs of variation selectors that encode hidden bytes
+ * - bidi_control: bidirectional overrides and isolates that reorder displayed text (Trojan Source)
+ * - zero_width: zero-width spaces, joiners and other invisible formatting characters
+ */
+export type HiddenUnicodeKind = 'tag_characters' | 'variation_selectors' | 'bidi_control' | 'zero_width';
+
+/**
+ * Sequence of invisible characters found in a text
+ */
+export interface HiddenUnicodeFinding {
+    kind: HiddenUnicodeKind;
+    /** UTF-16 offset of the first character of the sequence */
+    start: number;
+    /** UTF-16 offset after the last character of the sequence */
+    end: number;
+    codePoints: number[];
+    /** Text hidden in tag characters or variation selectors, if any */
+    decodedText?: string;
+}
+
+/**
+ * Severity and description of each kind of sequence
+ */
+const KIND_DEFINITIONS: Record<HiddenUnicodeKind, { severity: ThreatPattern['severity']; description: string; label: string }> = {
+    tag_characters: {
+        severity: 'high',
+        description: 'Invisible Unicode tag characters that hide text from the reader',
+        label: 'Unicode tag characters'
+    },
+    variation_selectors: {
+        severity: 'high',
+        description: 'Run of variation selectors that smuggles hidden data',
+        label: 'variation selectors'
+    },
+    bidi_control: {
+        severity: 'medium',
+        description: 'Bidirectional control characters that make text display differently than it is read',
+        label: 'bidirectional control characters'
+    },
+    zero_width: {
+        severity: 'medium',
+        description: 'Invisible zero-width characters inside the text',
+        label: 'zero-width characters'
+    }
+};
+
+/**
+ * Zero-width and invisible formatting characters
+ */
+const ZERO_WIDTH_CODE_POINTS = new Set([
+    0x200B, // ZERO WIDTH SPACE
+    0x200C, // ZERO WIDTH NON-JOINER
+    0x200D, // ZERO WIDTH JOINER
+    0x2060, // WORD JOINER
+    0x2061, // FUNCTION APPLICATION
+    0x2062, // INVISIBLE TIMES
+    0x2063, // INVISIBLE SEPARATOR
+    0x2064, // INVISIBLE PLUS
+    0x180E, // MONGOLIAN VOWEL SEPARATOR
+    0xFEFF  // ZERO WIDTH NO-BREAK SPACE (byte order mark)
+]);
+
+/**
+ * Joiners that legitimately appear inside emoji sequences and in scripts such as Arabic or Devanagari
+ */
+const JOINER_CODE_POINTS = new Set([0x200C, 0x200D]);
+
+/**
+ * Characters around which joiners are expected: emoji, and letters of scripts other than Latin
+ */
+const JOINER_CONTEXT = /[\p{Extended_Pictographic}\p{Emoji_Modifier}]|(?![\p{Script=Latin}])\p{L}|\p{M}/u;
+
+/**
+ * Number of code points shown for sequences without decodable text
+ */
+const MAX_DISPLAYED_CODE_POINTS = 8;
+
+/**
+ * HiddenUnicodeDetector finds invisible characters that hide instructions from
+ * the person reading a prompt or file while the model still reads them.
+ *
+ * Responsibilities:
+ * - Find tag characters, variation-selector runs, bidi controls and zero-width characters
+ * - Decode text hidden in tag characters and variation selectors
+ * - Skip legitimate uses: a byte order mark at the start, subdivision flag emoji,
+ *   single emoji variation selectors, and joiners inside emoji or non-Latin words
+ */
+export class HiddenUnicodeDetector {
+    /**
+     * Finds sequences of invisible characters.
+     *
+     * @param content The text to check
+     * @returns Sequences in order of their position
+     */
+    public detect(content: string): HiddenUnicodeFinding[] {
+        const findings: HiddenUnicodeFinding[] = [];
+        let current: HiddenUnicodeFinding | undefined;
+        let offset = 0;
+
+        for (const character of content) {
+            const codePoint = character.codePointAt(0) ?? 0;
+            const kind = this.classify(codePoint);
+            const start = offset;
+            offset += character.length;
+
+            if (kind && current?.kind === kind && current.end === start) {
+                current.end = offset;
+                current.codePoints.push(codePoint);
+                continue;
+            }
+
+            if (current) {
+                findings.push(current);
+                current = undefined;
+            }
+            if (kind) {
+                current = { kind, start, end: offset, codePoints: [codePoint] };
+            }
+        }
+        if (current) {
+            findings.push(current);
+        }
+
+        return findings
+            .filter(finding => !this.isLegitimate(finding, content))
+            .map(finding => this.decode(finding));
+    }
+
+    /**
+     * Converts a finding to a threat pattern located at the invisible characters.
+     *
+     * @param finding The invisible character sequence
+     * @returns Threat pattern of type hidden_unicode
+     */
+    public toThreatPattern(finding: HiddenUnicodeFinding): ThreatPattern {
+        const definition = KIND_DEFINITIONS[finding.kind];
+
+        return {
+            type: 'hidden_unicode',
+            pattern: finding.decodedText !== undefined
+                ? `${this.describeCodePoints(finding.codePoints)} → "${finding.decodedText}"`
+                : this.describeCodePoints(finding.codePoints),
+            severity: definition.severity,
+            description: definition.description,
+            location: { start: finding.start, end: finding.end }
+        };
+    }
+
+    /**
+     * Gets a readable name for the kind of a sequence, for descriptions.
+     *
+     * @param kind The kind of sequence
+     */
+    public getKindLabel(kind: HiddenUnicodeKind): string {
+        return KIND_DEFINITIONS[kind].label;
+    }
+
+    /**
+     * Determines the kind of an invisible character.
+     */
+    private classify(codePoint: number): HiddenUnicodeKind | undefined {
+        if (codePoint >= 0xE0000 && codePoint <= 0xE007F) {
+            return 'tag_characters';
+        }
+        if ((codePoint >= 0xFE00 && codePoint <= 0xFE0F) || (codePoint >= 0xE0100 && codePoint <= 0xE01EF)) {
+            return 'variation_selectors';
+        }
+        if ((codePoint >= 0x202A && codePoint <= 0x202E) || (codePoint >= 0x2066 && codePoint <= 0x2069)) {
+            return 'bidi_control';
+        }
+        if (ZERO_WIDTH_CODE_POINTS.has(codePoint)) {
+            return 'zero_width';
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks if a sequence is a legitimate use of an invisible character.
+     */
+    private isLegitimate(finding: HiddenUnicodeFinding, content: string): boolean {
+        const [first] = finding.codePoints;
+
+        switch (finding.kind) {
+            case 'tag_characters':
+                // Subdivision flags such as England are a black flag followed by a tag sequence
+                return this.codePointBefore(content, finding.start) === 0x1F3F4 &&
+                    finding.codePoints[finding.codePoints.length - 1] === 0xE007F &&
+                    finding.codePoints.length <= 8;
+            case 'variation_selectors':
+                // A single selector picks the emoji or text form of the character before it
+                return finding.codePoints.length === 1;
+            case 'zero_width':
+                if (finding.codePoints.length !== 1) {
+                    return false;
+                }
+                if (first === 0xFEFF && finding.start === 0) {
+                    return true;
+                }
+                return JOINER_CODE_POINTS.has(first) &&
+                    this.matchesJoinerContext(this.codePointBefore(content, finding.start)) &&
+                    this.matchesJoinerContext(this.codePointAt(content, finding.end));
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Decodes the text hidden in tag characters and variation selectors.
+     */
+    private decode(finding: HiddenUnicodeFinding): HiddenUnicodeFinding {
+        if (finding.kind === 'tag_characters') {
+            // Tag characters mirror ASCII: U+E0041 is a hidden "A"
+            const text = finding.codePoints
+                .map(codePoint => codePoint - 0xE0000)
+                .filter(ascii => ascii >= 0x20 && ascii < 0x7F)
+                .map(ascii => String.fromCharCode(ascii))
+                .join('');
+            return text.length > 0 ? { ...finding, decodedText: text } : finding;
+        }
+
+        if (finding.kind === 'variation_selectors') {
+            // VS1-VS16 encode bytes 0-15, VS17-VS256 encode bytes 16-255
+            const bytes = finding.codePoints.map(codePoint =>
+                codePoint <= 0xFE0F ? codePoint - 0xFE00 : codePoint - 0xE0100 + 16
+            );
+            const text = new TextDecoder('utf-8').decode(new Uint8Array(bytes));
+            // Only report text that decodes to something readable
+            const printable = text.replace(/[^\p{L}\p{N}\p{P}\p{S}\p{Zs}]|\uFFFD/gu, '');
+            return printable.length > 0 && printable.length >= text.length / 2
+                ? { ...finding, decodedText: printable }
+                : finding;
+        }
+
+        return finding;
+    }
+
+    /**
+     * Checks if a character is one joiners are expected next to.
+     */
+    private matchesJoinerContext(codePoint: number | undefined): boolean {
+        return codePoint !== undefined && JOINER_CONTEXT.test(String.fromCodePoint(codePoint));
+    }
+
+    /**
+     * Gets the code point that ends at an offset.
+     */
+    private codePointBefore(content: string, offset: number): number | undefined {
+        if (offset <= 0) {
+            return undefined;
+        }
+        const low = content.charCodeAt(offset - 1);
+        if (low >= 0xDC00 && low <= 0xDFFF && offset >= 2) {
+            return content.codePointAt(offset - 2);
+        }
+        return low;
+    }
+
+    /**
+     * Gets the code point that starts at an offset.
+     */
+    private codePointAt(content: string, offset: number): number | undefined {
+        return offset < content.length ? content.codePointAt(offset) : undefined;
+    }
+
+    /**
+     * Formats code points as U+XXXX, shortened for long sequences.
+     */
+    private describeCodePoints(codePoints: number[]): string {
+        const shown = codePoints
+            .slice(0, MAX_DISPLAYED_CODE_POINTS)
+            .map(codePoint => `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}`);
+        const more = codePoints.length > MAX_DISPLAYED_CODE_POINTS
+            ? ` … (${codePoints.length} characters)`
+            : '';
+        return `${shown.join(' ')}${more}`;
+    }
+}
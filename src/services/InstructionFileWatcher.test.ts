@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { Gatekeeper } from './Gatekeeper';
+import { InstructionFileWatcher } from './InstructionFileWatcher';
+import { SecurityService } from './SecurityService';
+import { files, Uri } from '../__mocks__/vscode';
+import { SecurityAnalysis } from '../types';
+
+const analysis: SecurityAnalysis = { threatLevel: 'safe', confidence: 0.9, detectedPatterns: [], reasoning: '', processingTime: 1 };
+const agents = Uri.file('/ws/AGENTS.md') as vscode.Uri;
+
+describe('InstructionFileWatcher', () => {
+    let watcher: InstructionFileWatcher;
+    let analyzeInstructionFile: ReturnType<typeof vi.fn>;
+    let reviewInstructionFile: ReturnType<typeof vi.fn>;
+
+    /**
+     * Waits for the debounce delay and the analyses it started.
+     */
+    async function settle() {
+        await vi.advanceTimersByTimeAsync(1000);
+        await watcher['analysisQueue'];
+    }
+
+    /**
+     * Reports a file event for the given file.
+     */
+    const touch = (uri: vscode.Uri) => watcher['scheduleAnalysis'](uri);
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        analyzeInstructionFile = vi.fn(async () => analysis);
+        reviewInstructionFile = vi.fn(async () => 'allow');
+        watcher = new InstructionFileWatcher(
+            { analyzeInstructionFile } as unknown as SecurityService,
+            { reviewInstructionFile } as unknown as Gatekeeper
+        );
+    });
+
+    afterEach(() => {
+        watcher.dispose();
+        files.clear();
+        vi.useRealTimers();
+    });
+
+    it('analyzes the existing instruction files when started and reports them to the Gatekeeper', async () => {
+        files.set('/ws/AGENTS.md', 'Use tabs.');
+
+        watcher.setEnabled(true);
+        await settle();
+
+        expect(analyzeInstructionFile).toHaveBeenCalledWith('/ws/AGENTS.md', 'Use tabs.');
+        expect(reviewInstructionFile).toHaveBeenCalledWith(agents, '/ws/AGENTS.md', 'Use tabs.', analysis);
+    });
+
+    it('analyzes a burst of events for a file once', async () => {
+        watcher.setEnabled(true);
+        files.set('/ws/AGENTS.md', 'Use tabs.');
+
+        touch(agents);
+        await vi.advanceTimersByTimeAsync(500);
+        touch(agents);
+        touch(agents);
+        await settle();
+
+        expect(analyzeInstructionFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('analyzes a file again only when its content changed or it was restored', async () => {
+        watcher.setEnabled(true);
+        files.set('/ws/AGENTS.md', 'Use tabs.');
+
+        touch(agents);
+        await settle();
+        touch(agents);
+        await settle();
+        expect(analyzeInstructionFile).toHaveBeenCalledTimes(1);
+
+        files.set('/ws/AGENTS.md', 'Use spaces.');
+        touch(agents);
+        await settle();
+        expect(analyzeInstructionFile).toHaveBeenCalledTimes(2);
+
+        watcher['forgetFile'](agents);
+        touch(agents);
+        await settle();
+        expect(analyzeInstructionFile).toHaveBeenCalledTimes(3);
+    });
+
+    it('skips files above the size limit', async () => {
+        watcher.setEnabled(true);
+        watcher.updateMaxFileSize(1);
+        files.set('/ws/AGENTS.md', 'a'.repeat(1025));
+
+        touch(agents);
+        await settle();
+
+        expect(analyzeInstructionFile).not.toHaveBeenCalled();
+    });
+
+    it('drops pending analyses when stopped', async () => {
+        watcher.setEnabled(true);
+        files.set('/ws/AGENTS.md', 'Use tabs.');
+
+        touch(agents);
+        watcher.setEnabled(false);
+        await settle();
+
+        expect(analyzeInstructionFile).not.toHaveBeenCalled();
+    });
+});
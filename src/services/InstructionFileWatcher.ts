@@ -0,0 +1,221 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { SecurityService } from './SecurityService';
+import { Gatekeeper } from './Gatekeeper';
+import { ConfigurationService } from './ConfigurationService';
+
+/**
+ * Files that AI coding assistants load as instructions
+ */
+const INSTRUCTION_FILE_GLOBS = [
+    '**/AGENTS.md',
+    '**/CLAUDE.md',
+    '**/GEMINI.md',
+    '**/.github/copilot-instructions.md',
+    '**/.github/instructions/*.instructions.md',
+    '**/.cursorrules',
+    '**/.cursor/rules/*.mdc',
+    '**/.clinerules',
+    '**/.clinerules/*.md',
+    '**/.windsurfrules'
+];
+
+/**
+ * Upper bound on instruction files analyzed when the watcher starts
+ */
+const MAX_INITIAL_FILES = 100;
+
+/**
+ * InstructionFileWatcher re-analyzes AI agent instruction files whenever they
+ * are created or changed on disk, including by a git pull or branch switch,
+ * so poisoned instructions are reported before an agent follows them.
+ *
+ * Responsibilities:
+ * - Watch AGENTS.md, copilot-instructions, .cursorrules, .clinerules and similar files
+ * - Debounce bursts of file events and analyze files one at a time
+ * - Skip files whose content did not change since the last analysis
+ * - Hand analysis results to the Gatekeeper for logging and notification
+ */
+export class InstructionFileWatcher implements vscode.Disposable {
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private disposables: vscode.Disposable[] = [];
+    private pendingFiles: Map<string, NodeJS.Timeout> = new Map();
+    private analyzedHashes: Map<string, string> = new Map();
+    private analysisQueue: Promise<void> = Promise.resolve();
+    private enabled: boolean = false;
+    private maxFileSize: number;
+
+    constructor(
+        private readonly securityService: SecurityService,
+        private readonly gatekeeper: Gatekeeper,
+        configService?: ConfigurationService,
+        private readonly debounceMs: number = 1000
+    ) {
+        if (configService) {
+            this.maxFileSize = configService.getScanMaxFileSize();
+        } else {
+            // Fall back to direct VS Code config access
+            const config = vscode.workspace.getConfiguration('cloak');
+            this.maxFileSize = config.get<number>('scanMaxFileSize', 512);
+        }
+    }
+
+    /**
+     * Starts or stops watching. Starting analyzes the instruction files that
+     * already exist in the workspace.
+     *
+     * @param enabled Whether instruction files are watched
+     */
+    public setEnabled(enabled: boolean): void {
+        if (enabled === this.enabled) {
+            return;
+        }
+        this.enabled = enabled;
+
+        if (enabled) {
+            this.start();
+        } else {
+            this.stop();
+        }
+    }
+
+    /**
+     * Checks if instruction files are watched.
+     */
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Creates the file system watcher and queues the existing instruction files.
+     */
+    private start(): void {
+        this.watcher = vscode.workspace.createFileSystemWatcher(this.buildGlobPattern());
+        this.disposables.push(
+            this.watcher,
+            this.watcher.onDidCreate(uri => this.scheduleAnalysis(uri)),
+            this.watcher.onDidChange(uri => this.scheduleAnalysis(uri)),
+            this.watcher.onDidDelete(uri => this.forgetFile(uri))
+        );
+
+        vscode.workspace.findFiles(this.buildGlobPattern(), '**/node_modules/**', MAX_INITIAL_FILES).then(
+            uris => {
+                if (this.enabled) {
+                    uris.forEach(uri => this.scheduleAnalysis(uri));
+                }
+            },
+            error => console.error('Failed to find instruction files:', error)
+        );
+    }
+
+    /**
+     * Disposes of the watcher and drops pending analyses.
+     */
+    private stop(): void {
+        for (const timeout of this.pendingFiles.values()) {
+            clearTimeout(timeout);
+        }
+        this.pendingFiles.clear();
+        this.analyzedHashes.clear();
+
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables = [];
+        this.watcher = undefined;
+    }
+
+    /**
+     * Schedules an analysis after the file stopped changing for the debounce delay.
+     * A git checkout touches many files at once; each file is analyzed once.
+     */
+    private scheduleAnalysis(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.pendingFiles.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        this.pendingFiles.set(key, setTimeout(() => {
+            this.pendingFiles.delete(key);
+            // Analyze one file at a time so a checkout does not flood the SLM
+            this.analysisQueue = this.analysisQueue
+                .then(() => this.analyzeFile(uri))
+                .catch(error => console.error(`Failed to analyze instruction file ${uri.fsPath}:`, error));
+        }, this.debounceMs));
+    }
+
+    /**
+     * Analyzes an instruction file and passes the result to the Gatekeeper.
+     */
+    private async analyzeFile(uri: vscode.Uri): Promise<void> {
+        if (!this.enabled) {
+            return;
+        }
+
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (stat.type !== vscode.FileType.File || stat.size > this.maxFileSize * 1024) {
+            return;
+        }
+
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        const content = new TextDecoder('utf-8').decode(bytes);
+
+        // Saving without changes or switching between branches with the same file
+        // content does not need another analysis
+        const key = uri.toString();
+        const hash = crypto.createHash('sha256').update(content).digest('hex');
+        if (this.analyzedHashes.get(key) === hash) {
+            return;
+        }
+        this.analyzedHashes.set(key, hash);
+
+        const filePath = vscode.workspace.asRelativePath(uri);
+        const analysis = await this.securityService.analyzeInstructionFile(filePath, content);
+
+        if (this.enabled) {
+            // The notification is not awaited so the next file is analyzed right away
+            this.gatekeeper.reviewInstructionFile(uri, filePath, content, analysis).catch(error => {
+                console.error(`Failed to report instruction file ${filePath}:`, error);
+            });
+        }
+    }
+
+    /**
+     * Forgets a deleted file, so it is analyzed again if it is restored.
+     */
+    private forgetFile(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.pendingFiles.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingFiles.delete(key);
+        }
+        this.analyzedHashes.delete(key);
+    }
+
+    /**
+     * Updates the size limit for analyzed files.
+     * Requirements: 8.4 - Hot reloading support
+     *
+     * @param maxFileSize Maximum file size in KB
+     */
+    public updateMaxFileSize(maxFileSize: number): void {
+        this.maxFileSize = maxFileSize;
+    }
+
+    /**
+     * Builds a single glob that matches all instruction files.
+     */
+    private buildGlobPattern(): string {
+        return `{${INSTRUCTION_FILE_GLOBS.join(',')}}`;
+    }
+
+    /**
+     * Disposes of the watcher.
+     */
+    public dispose(): void {
+        this.enabled = false;
+        this.stop();
+    }
+}
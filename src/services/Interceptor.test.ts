@@ -0,0 +1,385 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { Gatekeeper } from './Gatekeeper';
+import { Interceptor } from './Interceptor';
+import { ModelForwarder } from './ModelForwarder';
+import { ChatRequestTurn, ChatResponseTurn, files, LanguageModelError, Location, Range } from '../__mocks__/vscode';
+import { InterceptedPrompt, PromptPriority, SecurityDecision } from '../types';
+
+let promptCounter = 0;
+
+/**
+ * Creates a prompt as the chat participant or a command would.
+ */
+function createPrompt(content: string, source: InterceptedPrompt['source'] = 'chat'): InterceptedPrompt {
+    promptCounter++;
+    return { id: `prompt-${promptCounter}`, content, timestamp: new Date(), source, metadata: { sessionId: 'test' } };
+}
+
+/**
+ * Creates the decision a handler returns for a prompt.
+ */
+function allow(prompt: InterceptedPrompt): SecurityDecision {
+    return {
+        action: 'allow',
+        reason: 'No threats detected',
+        originalPrompt: prompt,
+        analysis: { threatLevel: 'safe', confidence: 0.9, detectedPatterns: [], reasoning: '', processingTime: 1 }
+    };
+}
+
+/**
+ * Prompt handler whose analyses finish only when the test releases them.
+ */
+function createBlockingHandler() {
+    const started: InterceptedPrompt[] = [];
+    const releases: Array<() => void> = [];
+    const handler = vi.fn((prompt: InterceptedPrompt) => new Promise<SecurityDecision>(resolve => {
+        started.push(prompt);
+        releases.push(() => resolve(allow(prompt)));
+    }));
+    return { handler, started, release: (index: number) => releases[index]() };
+}
+
+/**
+ * Lets queued promise callbacks run.
+ */
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Queues a prompt through the private entry point used by the chat participant and commands.
+ */
+function queue(interceptor: Interceptor, prompt: InterceptedPrompt, token?: vscode.CancellationToken, priority?: PromptPriority) {
+    return interceptor['queuePrompt'](prompt, token, priority);
+}
+
+describe('Interceptor queue', () => {
+    let interceptor: Interceptor;
+
+    afterEach(() => interceptor?.dispose());
+
+    it('analyzes up to the worker limit at the same time', async () => {
+        interceptor = new Interceptor();
+        interceptor.setMaxConcurrentWorkers(2);
+        const { handler, release } = createBlockingHandler();
+        interceptor.setPromptHandler(handler);
+
+        const results = ['one', 'two', 'three'].map(content => queue(interceptor, createPrompt(content)));
+        await settle();
+
+        expect(interceptor.getActiveWorkerCount()).toBe(2);
+        expect(interceptor.getQueueLength()).toBe(1);
+
+        release(0);
+        await settle();
+        expect(handler).toHaveBeenCalledTimes(3);
+
+        release(1);
+        release(2);
+        expect((await Promise.all(results)).map(decision => decision?.originalPrompt.content)).toEqual(['one', 'two', 'three']);
+    });
+
+    it('runs waiting requests by priority, then in arrival order', async () => {
+        interceptor = new Interceptor();
+        interceptor.setMaxConcurrentWorkers(1);
+        const { handler, started, release } = createBlockingHandler();
+        interceptor.setPromptHandler(handler);
+
+        queue(interceptor, createPrompt('running'));
+        queue(interceptor, createPrompt('batch', 'command'), undefined, 'batch');
+        queue(interceptor, createPrompt('command', 'command'));
+        queue(interceptor, createPrompt('chat one'));
+        queue(interceptor, createPrompt('chat two'));
+        await settle();
+
+        for (let index = 0; index < 5; index++) {
+            release(index);
+            await settle();
+        }
+        expect(started.map(prompt => prompt.content)).toEqual(['running', 'chat one', 'chat two', 'command', 'batch']);
+    });
+
+    it('starts more workers when the limit is raised', async () => {
+        interceptor = new Interceptor();
+        interceptor.setMaxConcurrentWorkers(1);
+        const { handler } = createBlockingHandler();
+        interceptor.setPromptHandler(handler);
+
+        queue(interceptor, createPrompt('one'));
+        queue(interceptor, createPrompt('two'));
+        await settle();
+        expect(handler).toHaveBeenCalledTimes(1);
+
+        interceptor.setMaxConcurrentWorkers(2);
+        await settle();
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('Interceptor coalescing', () => {
+    let interceptor: Interceptor;
+
+    afterEach(() => interceptor?.dispose());
+
+    it('analyzes identical pending prompts once and answers each caller with its own prompt', async () => {
+        interceptor = new Interceptor();
+        interceptor.setMaxConcurrentWorkers(1);
+        const { handler, release } = createBlockingHandler();
+        interceptor.setPromptHandler(handler);
+
+        const first = createPrompt('same text');
+        const second = createPrompt('same text');
+        const results = [queue(interceptor, first), queue(interceptor, second)];
+        await settle();
+        release(0);
+
+        const [firstDecision, secondDecision] = await Promise.all(results);
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(firstDecision?.originalPrompt).toBe(first);
+        expect(secondDecision?.originalPrompt).toBe(second);
+    });
+
+    it('does not coalesce prompts whose conversation differs', async () => {
+        interceptor = new Interceptor();
+        const handler = vi.fn(async (prompt: InterceptedPrompt) => allow(prompt));
+        interceptor.setPromptHandler(handler);
+
+        const withHistory = { ...createPrompt('same text'), conversation: [{ turn: 1, content: 'earlier' }] };
+        await Promise.all([queue(interceptor, createPrompt('same text')), queue(interceptor, withHistory)]);
+
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not join a command caller to a pending chat analysis', async () => {
+        interceptor = new Interceptor();
+        interceptor.setMaxConcurrentWorkers(1);
+        const { handler, started, release } = createBlockingHandler();
+        interceptor.setPromptHandler(handler);
+
+        const results = [queue(interceptor, createPrompt('same text', 'chat')), queue(interceptor, createPrompt('same text', 'command'))];
+        await settle();
+        release(0);
+        await settle();
+        release(1);
+        await Promise.all(results);
+
+        expect(started.map(prompt => prompt.source)).toEqual(['chat', 'command']);
+    });
+
+    it('detaches a cancelled caller without cancelling the others', async () => {
+        interceptor = new Interceptor();
+        interceptor.setMaxConcurrentWorkers(1);
+        const { handler, release } = createBlockingHandler();
+        interceptor.setPromptHandler(handler);
+
+        queue(interceptor, createPrompt('running'));
+        const cancellation = new vscode.CancellationTokenSource();
+        const cancelled = queue(interceptor, createPrompt('same text'), cancellation.token as vscode.CancellationToken);
+        const kept = queue(interceptor, createPrompt('same text'));
+        await settle();
+
+        cancellation.cancel();
+        await expect(cancelled).rejects.toThrow('Cancelled');
+
+        release(0);
+        await settle();
+        release(1);
+        expect((await kept)?.action).toBe('allow');
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('drops a queued request once all of its callers are cancelled', async () => {
+        interceptor = new Interceptor();
+        interceptor.setMaxConcurrentWorkers(1);
+        const { handler, release } = createBlockingHandler();
+        interceptor.setPromptHandler(handler);
+
+        queue(interceptor, createPrompt('running'));
+        const cancellation = new vscode.CancellationTokenSource();
+        const cancelled = queue(interceptor, createPrompt('dropped'), cancellation.token as vscode.CancellationToken);
+        await settle();
+
+        cancellation.cancel();
+        await expect(cancelled).rejects.toThrow('Cancelled');
+        expect(interceptor.getQueueLength()).toBe(0);
+
+        release(0);
+        await settle();
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops watching cancellation tokens once the analysis is done', async () => {
+        interceptor = new Interceptor();
+        interceptor.setMaxConcurrentWorkers(1);
+        const { handler, release } = createBlockingHandler();
+        interceptor.setPromptHandler(handler);
+
+        const listeners = [vi.fn(), vi.fn()];
+        const tokens = listeners.map(dispose => ({
+            isCancellationRequested: false,
+            onCancellationRequested: () => ({ dispose })
+        }) as unknown as vscode.CancellationToken);
+
+        const results = tokens.map(token => queue(interceptor, createPrompt('same text'), token));
+        await settle();
+        release(0);
+        await Promise.all(results);
+
+        expect(listeners[0]).toHaveBeenCalled();
+        expect(listeners[1]).toHaveBeenCalled();
+    });
+});
+
+describe('Interceptor conversation window', () => {
+    let interceptor: Interceptor;
+
+    afterEach(() => interceptor?.dispose());
+
+    /**
+     * Creates a chat context whose history alternates the given prompts with responses.
+     */
+    const createContext = (...prompts: string[]) => ({
+        history: prompts.flatMap(prompt => [new ChatRequestTurn(prompt), new ChatResponseTurn([])])
+    }) as unknown as vscode.ChatContext;
+
+    it('keeps the most recent user turns, numbered by their position in the session', () => {
+        interceptor = new Interceptor();
+        interceptor.setConversationWindow(2);
+
+        expect(interceptor['buildConversationWindow'](createContext('first', 'second', 'third'))).toEqual([
+            { turn: 2, content: 'second' },
+            { turn: 3, content: 'third' }
+        ]);
+    });
+
+    it('leaves out the conversation when the window is 0', () => {
+        interceptor = new Interceptor();
+        interceptor.setConversationWindow(0);
+
+        expect(interceptor['buildConversationWindow'](createContext('first'))).toEqual([]);
+    });
+});
+
+describe('Interceptor references', () => {
+    let interceptor: Interceptor;
+
+    afterEach(() => {
+        interceptor?.dispose();
+        files.clear();
+        vi.restoreAllMocks();
+    });
+
+    it('attaches the text of each readable reference with a label for where it came from', async () => {
+        interceptor = new Interceptor();
+        files.set('/ws/README.md', 'Read me first.');
+        files.set('/ws/src/app.ts', 'const a = 1;\nconst b = 2;\nconst c = 3;\n');
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const request = {
+            prompt: 'Explain these',
+            references: [
+                { id: 'file', value: vscode.Uri.file('/ws/README.md') },
+                { id: 'selection', value: new Location(vscode.Uri.file('/ws/src/app.ts'), new Range(1, 0, 2, 12)) },
+                { id: 'pasted', value: 'Pasted notes', modelDescription: 'Clipboard' },
+                { id: 'image', value: new Uint8Array([1, 2]) },
+                { id: 'empty', value: '  ' },
+                { id: 'deleted', value: vscode.Uri.file('/ws/gone.md') }
+            ]
+        } as unknown as vscode.ChatRequest;
+        const progress = vi.fn();
+
+        const prompt = await interceptor['buildChatPrompt'](
+            request,
+            { history: [] } as unknown as vscode.ChatContext,
+            { progress } as unknown as vscode.ChatResponseStream
+        );
+
+        expect(prompt.references).toEqual([
+            { id: 'file', label: '/ws/README.md', content: 'Read me first.' },
+            { id: 'selection', label: '/ws/src/app.ts:2-3', content: 'const b = 2;\nconst c = 3;' },
+            { id: 'pasted', label: 'Clipboard', content: 'Pasted notes' }
+        ]);
+        expect(progress).toHaveBeenCalledWith('Analyzing prompt and 3 attached reference(s)...');
+    });
+});
+
+describe('Interceptor chat requests', () => {
+    let interceptor: Interceptor;
+
+    afterEach(() => {
+        interceptor?.dispose();
+        vi.restoreAllMocks();
+    });
+
+    /**
+     * Sends a chat prompt through the participant with a forwarder that
+     * answers or fails as given, and a handler that decides with the given action.
+     */
+    async function chat(action: SecurityDecision['action'] | undefined, forwardError?: Error) {
+        interceptor = new Interceptor();
+        interceptor.setGatekeeper(new Gatekeeper());
+        interceptor.setPromptHandler(async prompt => action && { ...allow(prompt), action, reason: `Decided ${action}` });
+        const forward = vi.fn(async () => {
+            if (forwardError) {
+                throw forwardError;
+            }
+            return { modelId: 'copilot-gpt', modelName: 'GPT', fragmentCount: 1, responseFindings: [], redactedSecrets: [], redactedPii: [] };
+        });
+        interceptor.setModelForwarder({ forward } as unknown as ModelForwarder);
+        const stream = { markdown: vi.fn(), progress: vi.fn() };
+
+        const result = await interceptor['handleChatRequest'](
+            { prompt: 'How do I sort a list?', references: [] } as unknown as vscode.ChatRequest,
+            { history: [] } as unknown as vscode.ChatContext,
+            stream as unknown as vscode.ChatResponseStream,
+            new vscode.CancellationTokenSource().token as vscode.CancellationToken
+        );
+        return { result, forward, markdown: stream.markdown.mock.calls.map(([text]) => text as string) };
+    }
+
+    it('forwards allowed prompts to the model', async () => {
+        const { result, forward } = await chat('allow');
+
+        expect(forward).toHaveBeenCalledWith(
+            expect.objectContaining({ content: 'How do I sort a list?' }),
+            expect.anything(),
+            expect.anything(),
+            expect.anything()
+        );
+        expect(result.metadata).toMatchObject({ action: 'allow', forwarded: true, modelId: 'copilot-gpt' });
+    });
+
+    it('does not forward blocked prompts', async () => {
+        const { result, forward, markdown } = await chat('block');
+
+        expect(forward).not.toHaveBeenCalled();
+        expect(markdown).toEqual(['🛡️ **Blocked by Cloak Security Gateway**\n\nDecided block']);
+        expect(result.metadata).toMatchObject({ action: 'block', forwarded: false });
+    });
+
+    it('forwards warned prompts only once the user confirms them', async () => {
+        vi.spyOn(vscode.window, 'showWarningMessage').mockResolvedValueOnce(undefined as never);
+        const declined = await chat('warn');
+
+        expect(declined.forward).not.toHaveBeenCalled();
+        expect(declined.markdown).toContain('The prompt was not sent.');
+
+        vi.spyOn(vscode.window, 'showWarningMessage').mockResolvedValueOnce('Send Anyway' as never);
+        const confirmed = await chat('warn');
+
+        expect(confirmed.result.metadata).toMatchObject({ action: 'allow', userOverride: true, forwarded: true });
+    });
+
+    it('fails closed when no decision is reached', async () => {
+        const { result, forward } = await chat(undefined);
+
+        expect(forward).not.toHaveBeenCalled();
+        expect(result.metadata).toMatchObject({ forwarded: false });
+    });
+
+    it('reports model errors in the chat', async () => {
+        const { result, markdown } = await chat('allow', new LanguageModelError('Quota exceeded', 'Blocked'));
+
+        expect(markdown).toEqual(['❌ Forwarding to the language model failed: Quota exceeded (Blocked)']);
+        expect(result).toMatchObject({ metadata: { forwarded: false, error: 'Quota exceeded (Blocked)' } });
+    });
+});
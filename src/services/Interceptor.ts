@@ -1,21 +1,68 @@
 import * as vscode from 'vscode';
-import { InterceptedPrompt, PromptMetadata } from '../types';
+import * as crypto from 'crypto';
+import { 
+    InterceptedPrompt, 
+    PromptMetadata, 
+    SecurityDecision, 
+    ConversationTurn, 
+    PromptReference, 
+    ThreatPattern, 
+    ShieldStatus,
+    PromptPriority
+} from '../types';
 import { PerformanceMonitor } from './PerformanceMonitor';
+import { Gatekeeper } from './Gatekeeper';
+import { ModelForwarder } from './ModelForwarder';
+import { LocalStorageService } from './LocalStorageService';
+import { ConfigurationService } from './ConfigurationService';
+import { SecurityService } from './SecurityService';
 
 /**
- * Queued prompt request for async processing
+ * Caller waiting for the analysis of a queued prompt
  */
-interface QueuedRequest {
+interface PendingCaller {
     prompt: InterceptedPrompt;
-    resolve: (value: InterceptedPrompt) => void;
+    resolve: (value: SecurityDecision | undefined) => void;
     reject: (reason: Error) => void;
+    cancellationListener?: vscode.Disposable;
+}
+
+/**
+ * Queued prompt request for async processing.
+ * Callers that queue identical content while the request is pending share it.
+ */
+interface QueuedRequest {
+    contentHash: string;
+    priority: PromptPriority;
+    callers: PendingCaller[];
     queuedAt: number;
 }
 
 /**
- * Callback function type for handling intercepted prompts
+ * Processing order of the priority classes, lower runs first
+ */
+const PRIORITY_RANK: Record<PromptPriority, number> = {
+    interactive: 0,
+    command: 1,
+    batch: 2
+};
+
+/**
+ * Callback function type for handling intercepted prompts.
+ * Resolves with the security decision made for the prompt, if any.
+ */
+export type PromptHandler = (prompt: InterceptedPrompt) => Promise<SecurityDecision | undefined>;
+
+/**
+ * Callback function type returning the current shield status for `/status`.
  */
-export type PromptHandler = (prompt: InterceptedPrompt) => Promise<void>;
+export type StatusProvider = () => ShieldStatus | undefined;
+
+/**
+ * Default and maximum number of events listed by `/audit`
+ */
+const DEFAULT_AUDIT_EVENT_COUNT = 10;
+const MAX_AUDIT_EVENT_COUNT = 100;
 
 /**
  * Interceptor component for capturing user prompts via VS Code Chat API.
@@ -30,12 +77,22 @@ export type PromptHandler = (prompt: InterceptedPrompt) => Promise<void>;
 export class Interceptor implements vscode.Disposable {
     private disposables: vscode.Disposable[] = [];
     private requestQueue: QueuedRequest[] = [];
-    private isProcessing: boolean = false;
+    private inFlightRequests: Map<string, QueuedRequest> = new Map();
+    private activeWorkers: number = 0;
+    private maxConcurrentWorkers: number = 2;
     private promptHandler: PromptHandler | undefined;
     private requestCounter: number = 0;
     private sessionId: string;
     private performanceMonitor: PerformanceMonitor | undefined;
+    private gatekeeper: Gatekeeper | undefined;
+    private modelForwarder: ModelForwarder | undefined;
+    private localStorageService: LocalStorageService | undefined;
+    private configurationService: ConfigurationService | undefined;
+    private securityService: SecurityService | undefined;
+    private statusProvider: StatusProvider | undefined;
+    private lastDecision: SecurityDecision | undefined;
     private maxQueueSize: number = 100;
+    private conversationWindow: number = 5;
 
     constructor() {
         this.sessionId = this.generateSessionId();
@@ -51,6 +108,83 @@ export class Interceptor implements vscode.Disposable {
         this.performanceMonitor = monitor;
     }
 
+    /**
+     * Sets the gatekeeper used to confirm warned chat prompts.
+     * Requirements: 4.5 - User override with explicit confirmation
+     * 
+     * @param gatekeeper The gatekeeper instance
+     */
+    public setGatekeeper(gatekeeper: Gatekeeper): void {
+        this.gatekeeper = gatekeeper;
+    }
+
+    /**
+     * Sets the forwarder that sends allowed chat prompts to the downstream model.
+     * 
+     * @param forwarder The model forwarder instance
+     */
+    public setModelForwarder(forwarder: ModelForwarder): void {
+        this.modelForwarder = forwarder;
+    }
+
+    /**
+     * Sets the local storage service read by the `/audit` command.
+     * 
+     * @param storageService The local storage service instance
+     */
+    public setLocalStorageService(storageService: LocalStorageService): void {
+        this.localStorageService = storageService;
+    }
+
+    /**
+     * Sets the configuration service read by the `/policy` command.
+     * 
+     * @param configService The configuration service instance
+     */
+    public setConfigurationService(configService: ConfigurationService): void {
+        this.configurationService = configService;
+    }
+
+    /**
+     * Sets the security service probed by the `/status` command.
+     * 
+     * @param service The security service instance
+     */
+    public setSecurityService(service: SecurityService): void {
+        this.securityService = service;
+    }
+
+    /**
+     * Sets the provider of the current shield status shown by `/status`.
+     * 
+     * @param provider Function returning the current shield status
+     */
+    public setStatusProvider(provider: StatusProvider): void {
+        this.statusProvider = provider;
+    }
+
+    /**
+     * Sets how many prompts are analyzed at the same time.
+     * Requirements: 1.3 - Handle multiple prompts asynchronously
+     * 
+     * @param workers Number of concurrent workers, at least 1
+     */
+    public setMaxConcurrentWorkers(workers: number): void {
+        this.maxConcurrentWorkers = Math.max(1, Math.floor(workers));
+        
+        // Start additional workers if the limit was raised while requests are waiting
+        this.processQueue();
+    }
+
+    /**
+     * Sets how many earlier user turns are attached to each chat prompt.
+     * 
+     * @param turns Number of earlier turns, 0 disables multi-turn analysis
+     */
+    public setConversationWindow(turns: number): void {
+        this.conversationWindow = Math.max(0, Math.floor(turns));
+    }
+
     /**
      * Registers the ChatParticipant with VS Code.
      * Requirements: 1.4 - Support ChatParticipant API
@@ -101,7 +235,10 @@ export class Interceptor implements vscode.Disposable {
 
     /**
      * Handles incoming chat requests from the ChatParticipant API.
+     * Allowed prompts are forwarded to the downstream model, warned prompts
+     * wait for user confirmation and blocked prompts never leave.
      * Requirements: 1.1, 1.2 - Capture and route prompts
+     * Requirements: 4.1, 4.3 - Block dangerous prompts, pass safe prompts through
      * 
      * @param request The chat request from VS Code
      * @param context Chat context
@@ -110,11 +247,87 @@ export class Interceptor implements vscode.Disposable {
      */
     private async handleChatRequest(
         request: vscode.ChatRequest,
-        _context: vscode.ChatContext,
+        context: vscode.ChatContext,
         stream: vscode.ChatResponseStream,
         token: vscode.CancellationToken
     ): Promise<vscode.ChatResult> {
-        // Create intercepted prompt from chat request
+        if (request.command) {
+            return this.handleSlashCommand(request, context, stream, token);
+        }
+
+        const interceptedPrompt = await this.buildChatPrompt(request, context, stream);
+
+        // Queue the prompt for async processing
+        let decision: SecurityDecision | undefined;
+        try {
+            decision = await this.queuePrompt(interceptedPrompt, token);
+        } catch (error) {
+            return this.handleAnalysisFailure(error, stream);
+        }
+
+        // Fail closed: a prompt without a decision is never forwarded
+        if (!decision) {
+            stream.markdown('⚠️ Cloak could not reach a security decision for this prompt, so it was not sent.');
+            return { metadata: { intercepted: true, promptId: interceptedPrompt.id, forwarded: false } };
+        }
+        this.lastDecision = decision;
+
+        if (decision.action === 'block') {
+            stream.markdown(`🛡️ **Blocked by Cloak Security Gateway**\n\n${decision.reason}`);
+            return { metadata: { intercepted: true, promptId: interceptedPrompt.id, action: 'block', forwarded: false } };
+        }
+
+        if (decision.action === 'warn') {
+            stream.markdown(`⚠️ **Suspicious prompt**\n\n${decision.reason}\n\n`);
+            
+            const confirmed = this.gatekeeper ? await this.gatekeeper.confirmWarnedPrompt(decision) : null;
+            if (!confirmed || token.isCancellationRequested) {
+                stream.markdown('The prompt was not sent.');
+                return { metadata: { intercepted: true, promptId: interceptedPrompt.id, action: 'warn', forwarded: false } };
+            }
+            decision = confirmed;
+        }
+
+        if (decision.action === 'sanitize' && decision.sanitization) {
+            const sanitization = decision.sanitization;
+            stream.markdown(`🧹 **Sanitized by Cloak**\n\n${decision.reason}\n\n${this.formatDiff(sanitization.diff)}\n\n`);
+
+            // Forward only the exact content the Gatekeeper produced from this prompt
+            if (this.localStorageService &&
+                !this.localStorageService.validatePromptIntegrity(interceptedPrompt, sanitization.prompt, sanitization)) {
+                stream.markdown('⚠️ The sanitized prompt failed its integrity check, so it was not sent.');
+                return { metadata: { intercepted: true, promptId: interceptedPrompt.id, action: 'sanitize', forwarded: false } };
+            }
+            return this.forwardToModel(sanitization.prompt, decision, context, stream, token);
+        }
+
+        return this.forwardToModel(interceptedPrompt, decision, context, stream, token);
+    }
+
+    /**
+     * Formats a sanitization diff as a fenced code block that cannot be closed
+     * by backticks in the diffed text.
+     */
+    private formatDiff(diff: string): string {
+        const longestRun = Math.max(0, ...(diff.match(/`+/g) ?? []).map(run => run.length));
+        const fence = '`'.repeat(Math.max(3, longestRun + 1));
+        return `${fence}diff\n${diff}\n${fence}`;
+    }
+
+    /**
+     * Creates an intercepted prompt from a chat request, including its
+     * conversation window and resolved references.
+     * 
+     * @param request The chat request from VS Code
+     * @param context Chat context
+     * @param stream Response stream for progress messages
+     * @returns The intercepted prompt
+     */
+    private async buildChatPrompt(
+        request: vscode.ChatRequest,
+        context: vscode.ChatContext,
+        stream: vscode.ChatResponseStream
+    ): Promise<InterceptedPrompt> {
         const interceptedPrompt = this.createInterceptedPrompt(
             request.prompt,
             'chat',
@@ -124,28 +337,521 @@ export class Interceptor implements vscode.Disposable {
             }
         );
 
-        // Queue the prompt for async processing
+        const conversation = this.buildConversationWindow(context);
+        if (conversation.length > 0) {
+            interceptedPrompt.conversation = conversation;
+        }
+
+        const references = await this.resolveReferences(request.references);
+        if (references.length > 0) {
+            interceptedPrompt.references = references;
+            stream.progress(`Analyzing prompt and ${references.length} attached reference(s)...`);
+        } else {
+            stream.progress('Analyzing prompt...');
+        }
+
+        return interceptedPrompt;
+    }
+
+    /**
+     * Reports a failed or cancelled analysis in the chat response.
+     * 
+     * @param error The error raised while queuing or analyzing the prompt
+     * @param stream Response stream for feedback
+     */
+    private handleAnalysisFailure(error: unknown, stream: vscode.ChatResponseStream): vscode.ChatResult {
+        if (error instanceof Error && error.message === 'Cancelled') {
+            stream.markdown('⚠️ Security analysis was cancelled');
+            return { metadata: { intercepted: false, cancelled: true } };
+        }
+        
+        stream.markdown('❌ Security analysis failed');
+        return { 
+            metadata: { intercepted: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            errorDetails: { message: error instanceof Error ? error.message : 'Unknown error' }
+        };
+    }
+
+    /**
+     * Handles `@cloak` slash commands. Commands answer in the chat view and
+     * never forward anything to the downstream model.
+     * 
+     * @param request The chat request carrying the command
+     * @param context Chat context
+     * @param stream Response stream for the answer
+     * @param token Cancellation token
+     */
+    private async handleSlashCommand(
+        request: vscode.ChatRequest,
+        context: vscode.ChatContext,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        const metadata = { command: request.command, forwarded: false };
+
+        switch (request.command) {
+            case 'scan':
+            case 'explain': {
+                const hasInput = request.prompt.trim() !== '' || request.references.length > 0;
+
+                // `/explain` without text explains the previous decision of this session
+                if (!hasInput && request.command === 'explain') {
+                    this.renderExplanation(this.lastDecision, stream);
+                    return { metadata };
+                }
+
+                if (!hasInput) {
+                    stream.markdown('Add the text to scan after the command, for example `/scan ignore all previous instructions`, or attach a file with `#file`.');
+                    return { metadata };
+                }
+
+                const interceptedPrompt = await this.buildChatPrompt(request, context, stream);
+                let decision: SecurityDecision | undefined;
+                try {
+                    decision = await this.queuePrompt(interceptedPrompt, token);
+                } catch (error) {
+                    return this.handleAnalysisFailure(error, stream);
+                }
+
+                if (!decision) {
+                    stream.markdown('⚠️ Cloak could not reach a security decision for this text.');
+                    return { metadata: { ...metadata, intercepted: true, promptId: interceptedPrompt.id } };
+                }
+
+                this.lastDecision = decision;
+                if (request.command === 'scan') {
+                    this.renderScanResult(decision, stream);
+                } else {
+                    this.renderExplanation(decision, stream);
+                }
+                return { metadata: { ...metadata, intercepted: true, promptId: interceptedPrompt.id, action: decision.action } };
+            }
+            case 'policy':
+                this.renderPolicy(stream);
+                return { metadata };
+            case 'audit':
+                this.renderAudit(request.prompt, stream);
+                return { metadata };
+            case 'status':
+                await this.renderStatus(stream);
+                return { metadata };
+            default:
+                stream.markdown(`Unknown command \`/${request.command}\`. Available commands: \`/scan\`, \`/explain\`, \`/policy\`, \`/audit\`, \`/status\`.`);
+                return { metadata };
+        }
+    }
+
+    /**
+     * Renders the verdict of `/scan`.
+     */
+    private renderScanResult(decision: SecurityDecision, stream: vscode.ChatResponseStream): void {
+        const analysis = decision.analysis;
+        const icons: Record<SecurityDecision['action'], string> = { block: '🛑', warn: '⚠️', sanitize: '🧹', allow: '✅' };
+        const verdicts: Record<SecurityDecision['action'], string> = {
+            block: 'Would be blocked',
+            warn: 'Would need confirmation',
+            sanitize: 'Would be sanitized',
+            allow: 'Would be allowed'
+        };
+        const icon = icons[decision.action];
+        const verdict = verdicts[decision.action];
+
+        let markdown = `## ${icon} ${verdict}\n\n`;
+        markdown += `| | |\n|---|---|\n`;
+        markdown += `| Threat level | **${analysis.threatLevel}** |\n`;
+        markdown += `| Confidence | ${(analysis.confidence * 100).toFixed(0)}% |\n`;
+        markdown += `| Patterns | ${analysis.detectedPatterns.length} |\n`;
+        markdown += `| Analysis time | ${analysis.processingTime}ms |\n`;
+        if (analysis.analyzedWindows) {
+            markdown += `| Windows | ${analysis.analyzedWindows} |\n`;
+        }
+        if (analysis.oversized) {
+            markdown += `| Oversized | handled by \`cloak.oversizedPromptPolicy\` |\n`;
+        }
+        markdown += '\n';
+
+        if (analysis.detectedPatterns.length > 0) {
+            markdown += `| Type | Severity | Description | Source |\n|---|---|---|---|\n`;
+            for (const pattern of analysis.detectedPatterns) {
+                markdown += `| ${pattern.type} | ${pattern.severity} | ${this.escapeTableCell(pattern.description)} | ${this.describePatternSource(pattern)} |\n`;
+            }
+            markdown += '\n';
+        }
+
+        if (decision.sanitization) {
+            markdown += `${this.formatDiff(decision.sanitization.diff)}\n\n`;
+        }
+
+        markdown += `Nothing was sent to a language model. Use \`/explain\` for a detailed explanation.`;
+        stream.markdown(markdown);
+    }
+
+    /**
+     * Renders a detailed explanation of a decision for `/explain`.
+     */
+    private renderExplanation(decision: SecurityDecision | undefined, stream: vscode.ChatResponseStream): void {
+        if (!decision) {
+            stream.markdown('There is no Cloak decision to explain yet. Use `/explain <text>` to analyze and explain some text.');
+            return;
+        }
+
+        const analysis = decision.analysis;
+        let markdown = `## Why Cloak decided to ${decision.action}\n\n`;
+        markdown += `${decision.reason}\n\n`;
+
+        if (analysis.detectedPatterns.length === 0) {
+            markdown += 'No threat patterns were detected.\n\n';
+        }
+
+        const types = [...new Set(analysis.detectedPatterns.map(p => p.type))];
+        for (const type of types) {
+            markdown += `### ${type}\n\n${SecurityService.getThreatTypeExplanation(type)}\n\n`;
+            for (const pattern of analysis.detectedPatterns.filter(p => p.type === type)) {
+                markdown += `- **${pattern.severity}** — ${pattern.description} (\`${this.truncate(pattern.pattern, 80)}\`, ${this.describePatternSource(pattern)})\n`;
+            }
+            markdown += '\n';
+        }
+
+        if (analysis.contributingTurns && analysis.contributingTurns.length > 0) {
+            markdown += `**Contributing turns:** ${analysis.contributingTurns.join(', ')}\n\n`;
+        }
+
+        if (decision.flaggedReferences && decision.flaggedReferences.length > 0) {
+            markdown += `**Flagged references:** ${decision.flaggedReferences.join(', ')}\n\n`;
+        }
+
+        const thresholds = this.gatekeeper?.getConfig();
+        markdown += `**Analysis:** ${analysis.reasoning}\n\n`;
+        markdown += `Threat level **${analysis.threatLevel}** at ${(analysis.confidence * 100).toFixed(0)}% confidence`;
+        if (thresholds) {
+            markdown += ` (block at ${(thresholds.blockThreshold * 100).toFixed(0)}%, warn at ${(thresholds.warnThreshold * 100).toFixed(0)}%)`;
+        }
+        markdown += '.';
+
+        stream.markdown(markdown);
+    }
+
+    /**
+     * Renders the active security policy for `/policy`.
+     */
+    private renderPolicy(stream: vscode.ChatResponseStream): void {
+        const gatekeeperConfig = this.gatekeeper?.getConfig();
+        const config = this.configurationService?.getConfiguration();
+
+        if (!gatekeeperConfig && !config) {
+            stream.markdown('⚠️ The security policy is not available yet.');
+            return;
+        }
+
+        let markdown = '## 🛡️ Active security policy\n\n| Setting | Value |\n|---|---|\n';
+
+        if (gatekeeperConfig) {
+            markdown += `| Block threshold | ${(gatekeeperConfig.blockThreshold * 100).toFixed(0)}% |\n`;
+            markdown += `| Warn threshold | ${(gatekeeperConfig.warnThreshold * 100).toFixed(0)}% |\n`;
+            markdown += `| User override for blocked requests | ${gatekeeperConfig.enableUserOverride ? 'enabled' : 'disabled'} |\n`;
+            markdown += `| Audit log | ${gatekeeperConfig.enableAuditLog ? 'enabled' : 'disabled'} |\n`;
+        }
+
+        if (config) {
+            markdown += `| Threat sensitivity | ${config.threatSensitivity} |\n`;
+            markdown += `| Analysis endpoint | ${config.ollamaEndpoint} |\n`;
+            markdown += `| Analysis timeout | ${config.timeout}ms |\n`;
+            markdown += `| Max prompt length | ${config.maxPromptLength} (longer prompts are analyzed in windows) |\n`;
+            markdown += `| Oversized prompts | ${config.oversizedPromptPolicy} |\n`;
+            markdown += `| Conversation window | ${config.conversationWindow} turn(s) |\n`;
+            markdown += `| Response filter | ${config.enableResponseFilter ? 'enabled' : 'disabled'} |\n`;
+            markdown += `| Target model | ${config.targetModelVendor || 'any vendor'}${config.targetModelFamily ? ` / ${config.targetModelFamily}` : ''} |\n`;
+        }
+
+        markdown += '\nDangerous prompts at or above the block threshold are blocked. Other dangerous prompts, and suspicious prompts at or above the warn threshold, need confirmation.';
+        stream.markdown(markdown);
+    }
+
+    /**
+     * Renders the most recent audit events for `/audit [count]`.
+     */
+    private renderAudit(argument: string, stream: vscode.ChatResponseStream): void {
+        if (!this.localStorageService) {
+            stream.markdown('⚠️ The audit log is not available.');
+            return;
+        }
+
+        const requested = parseInt(argument.trim(), 10);
+        const count = Number.isNaN(requested) || requested <= 0
+            ? DEFAULT_AUDIT_EVENT_COUNT
+            : Math.min(requested, MAX_AUDIT_EVENT_COUNT);
+
+        const stats = this.localStorageService.getStatistics();
+        const events = this.localStorageService.getAuditLog().slice(-count).reverse();
+
+        let markdown = `## 📋 Audit log\n\n`;
+        markdown += `${stats.totalAuditEvents} event(s) stored — ${stats.blockedCount} blocked, ${stats.warnCount} warned, ${stats.sanitizeCount} sanitized, ${stats.allowedCount} allowed.\n\n`;
+
+        const piiCounts = Object.entries(stats.piiCounts).filter(([, count]) => count > 0);
+        if (piiCounts.length > 0) {
+            markdown += `Personal data found in prompts: ${piiCounts.map(([type, count]) => `${type} ${count}`).join(', ')}.\n\n`;
+        }
+
+        if (events.length === 0) {
+            markdown += 'No events recorded yet.';
+            stream.markdown(markdown);
+            return;
+        }
+
+        markdown += `Last ${events.length} event(s), newest first:\n\n`;
+        markdown += '| Time | Event | Threat | Confidence | Decision | Details |\n|---|---|---|---|---|---|\n';
+        for (const event of events) {
+            const details: string[] = [];
+            if (event.userOverride) {
+                details.push('user override');
+            }
+            if (event.findingTypes && event.findingTypes.length > 0) {
+                details.push(event.findingTypes.join(', '));
+            }
+            if (event.filePath) {
+                details.push(`\`${event.filePath}\``);
+            }
+            if (event.commitSha) {
+                details.push(`commit ${event.commitSha.substring(0, 7)}`);
+            }
+            markdown += `| ${event.timestamp.toLocaleString()} | ${event.eventType} | ${event.threatLevel} | ` +
+                `${(event.confidence * 100).toFixed(0)}% | ${this.escapeTableCell(event.decision)} | ${details.join('; ') || '—'} |\n`;
+        }
+
+        markdown += '\nPrompts are stored as SHA-256 hashes only. Run **Cloak: Show Audit Log** for the full export.';
+        stream.markdown(markdown);
+    }
+
+    /**
+     * Renders service health and runtime statistics for `/status`.
+     */
+    private async renderStatus(stream: vscode.ChatResponseStream): Promise<void> {
+        stream.progress('Checking services...');
+
+        const status = this.statusProvider?.();
+        const analysisAvailable = this.securityService ? await this.securityService.isServiceAvailable() : undefined;
+        const targetModel = this.modelForwarder ? await this.modelForwarder.selectModel() : undefined;
+
+        let markdown = '## 🛡️ Cloak status\n\n| | |\n|---|---|\n';
+
+        if (status) {
+            markdown += `| Shield | ${status.state} — ${this.escapeTableCell(status.message)} |\n`;
+            markdown += `| Service health | ${status.serviceHealth} |\n`;
+            if (status.lastAnalysis) {
+                markdown += `| Last analysis | ${status.lastAnalysis.toLocaleString()} |\n`;
+            }
+        }
+
+        if (analysisAvailable !== undefined) {
+            markdown += `| Analysis model | ${analysisAvailable ? '✅ reachable' : '❌ unreachable (local pattern detection only)'} |\n`;
+        }
+        if (this.modelForwarder) {
+            markdown += `| Target model | ${targetModel ? `✅ ${targetModel.name}` : '❌ none available'} |\n`;
+        }
+
+        markdown += `| Queue | ${this.requestQueue.length} waiting, ${this.activeWorkers}/${this.maxConcurrentWorkers} worker(s) busy |\n`;
+
+        if (this.performanceMonitor) {
+            const stats = this.performanceMonitor.getPerformanceStats();
+            markdown += `| Operations | ${stats.totalOperations} (${stats.failedOperations} failed) |\n`;
+            markdown += `| Average analysis time | ${stats.averageDuration.toFixed(0)}ms (p95 ${stats.p95Duration.toFixed(0)}ms) |\n`;
+            markdown += `| Memory | ${stats.memoryUsage.percentUsed.toFixed(1)}% of heap |\n`;
+
+            const queueStats = this.performanceMonitor.getQueueStats();
+            const waits = (Object.keys(PRIORITY_RANK) as PromptPriority[])
+                .filter(priority => queueStats.byPriority[priority].processed > 0)
+                .map(priority => `${priority} ${queueStats.byPriority[priority].averageWaitTime.toFixed(0)}ms`);
+            if (waits.length > 0) {
+                markdown += `| Average queue wait | ${waits.join(', ')} |\n`;
+            }
+            if (queueStats.coalescedRequests > 0) {
+                markdown += `| Coalesced duplicates | ${queueStats.coalescedRequests} |\n`;
+            }
+        }
+
+        stream.markdown(markdown);
+    }
+
+    /**
+     * Describes where a pattern was found.
+     */
+    private describePatternSource(pattern: ThreatPattern): string {
+        const location = pattern.location ? ` @ ${pattern.location.start}-${pattern.location.end}` : '';
+        if (pattern.source) {
+            return this.escapeTableCell(pattern.source) + location;
+        }
+        if (pattern.turns && pattern.turns.length > 0) {
+            return `turns ${pattern.turns.join(', ')}`;
+        }
+        return `prompt${location}`;
+    }
+
+    /**
+     * Escapes text for use inside a markdown table cell.
+     */
+    private escapeTableCell(text: string): string {
+        return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    }
+
+    /**
+     * Shortens text for inline display.
+     */
+    private truncate(text: string, maxLength: number): string {
+        return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+    }
+
+    /**
+     * Forwards an allowed chat prompt to the downstream language model.
+     * 
+     * @param prompt The intercepted prompt
+     * @param decision The allow decision for the prompt
+     * @param context Chat context
+     * @param stream Response stream the model output is written to
+     * @param token Cancellation token
+     */
+    private async forwardToModel(
+        prompt: InterceptedPrompt,
+        decision: SecurityDecision,
+        context: vscode.ChatContext,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<vscode.ChatResult> {
+        const metadata = {
+            intercepted: true,
+            promptId: prompt.id,
+            action: decision.action,
+            userOverride: decision.userOverride ?? false
+        };
+
+        if (!this.modelForwarder) {
+            stream.markdown('🛡️ Prompt passed Cloak security analysis, but no target model is configured.');
+            return { metadata: { ...metadata, forwarded: false } };
+        }
+
         try {
-            await this.queuePrompt(interceptedPrompt, token);
-            
-            // Provide feedback to user
-            stream.markdown('🛡️ Prompt analyzed by Cloak Security Gateway');
-            
-            return { metadata: { intercepted: true, promptId: interceptedPrompt.id } };
-        } catch (error) {
-            if (error instanceof Error && error.message === 'Cancelled') {
-                stream.markdown('⚠️ Security analysis was cancelled');
-                return { metadata: { intercepted: false, cancelled: true } };
+            const startTime = Date.now();
+            const result = await this.modelForwarder.forward(prompt, context, stream, token);
+
+            if (result.redactedSecrets.length > 0) {
+                this.gatekeeper?.logSecretRedactions(prompt, result.redactedSecrets, Date.now() - startTime);
+            }
+            if (result.responseFindings.length > 0) {
+                this.gatekeeper?.logResponseFindings(prompt, result.responseFindings, Date.now() - startTime);
             }
+
+            return { 
+                metadata: { 
+                    ...metadata, 
+                    forwarded: true, 
+                    modelId: result.modelId,
+                    responseFindings: result.responseFindings.length,
+                    redactedSecrets: result.redactedSecrets.length,
+                    redactedPii: result.redactedPii.length
+                } 
+            };
+        } catch (error) {
+            const message = error instanceof vscode.LanguageModelError
+                ? `${error.message} (${error.code})`
+                : error instanceof Error ? error.message : 'Unknown error';
             
-            stream.markdown('❌ Security analysis failed');
+            stream.markdown(`❌ Forwarding to the language model failed: ${message}`);
             return { 
-                metadata: { intercepted: false, error: error instanceof Error ? error.message : 'Unknown error' },
-                errorDetails: { message: error instanceof Error ? error.message : 'Unknown error' }
+                metadata: { ...metadata, forwarded: false, error: message },
+                errorDetails: { message }
             };
         }
     }
 
+    /**
+     * Builds the conversation window from the earlier user turns in the chat history.
+     * Turns are numbered by their position in the session, starting at 1.
+     * 
+     * @param context Chat context with the conversation history
+     * @returns The most recent earlier user turns, oldest first
+     */
+    private buildConversationWindow(context: vscode.ChatContext): ConversationTurn[] {
+        if (this.conversationWindow === 0) {
+            return [];
+        }
+
+        const turns: ConversationTurn[] = context.history
+            .filter((turn): turn is vscode.ChatRequestTurn => turn instanceof vscode.ChatRequestTurn)
+            .map((turn, index) => ({ turn: index + 1, content: turn.prompt }));
+
+        return turns.slice(-this.conversationWindow);
+    }
+
+    /**
+     * Resolves chat references (#file, selections, ...) to their text content.
+     * References that cannot be read as text are skipped.
+     * 
+     * @param references The references attached to the chat request
+     * @returns Resolved references with their content
+     */
+    private async resolveReferences(references: readonly vscode.ChatPromptReference[]): Promise<PromptReference[]> {
+        const resolved: PromptReference[] = [];
+
+        for (const reference of references) {
+            try {
+                const content = await this.readReferenceContent(reference.value);
+                if (content !== undefined && content.trim() !== '') {
+                    resolved.push({
+                        id: reference.id,
+                        label: this.describeReference(reference),
+                        content
+                    });
+                }
+            } catch (error) {
+                console.error(`Failed to read chat reference ${reference.id}:`, error);
+            }
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Reads the text content of a chat reference value.
+     * 
+     * @param value The reference value (string, Uri or Location)
+     * @returns The referenced text, or undefined for unsupported values
+     */
+    private async readReferenceContent(value: unknown): Promise<string | undefined> {
+        if (typeof value === 'string') {
+            return value;
+        }
+
+        if (value instanceof vscode.Uri) {
+            const document = await vscode.workspace.openTextDocument(value);
+            return document.getText();
+        }
+
+        if (value instanceof vscode.Location) {
+            const document = await vscode.workspace.openTextDocument(value.uri);
+            return document.getText(value.range);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Builds a readable label for a chat reference.
+     */
+    private describeReference(reference: vscode.ChatPromptReference): string {
+        const value = reference.value;
+
+        if (value instanceof vscode.Uri) {
+            return vscode.workspace.asRelativePath(value);
+        }
+
+        if (value instanceof vscode.Location) {
+            const start = value.range.start.line + 1;
+            const end = value.range.end.line + 1;
+            return `${vscode.workspace.asRelativePath(value.uri)}:${start === end ? start : `${start}-${end}`}`;
+        }
+
+        return reference.modelDescription ?? reference.id;
+    }
+
     /**
      * Handles command-based prompt analysis requests.
      * Requirements: 1.4 - Command wrapper for broader compatibility
@@ -235,17 +941,21 @@ export class Interceptor implements vscode.Disposable {
 
     /**
      * Queues a prompt for async processing.
+     * A prompt identical to one that is still queued or being analyzed is attached
+     * to that request instead of triggering another analysis.
      * Requirements: 1.3 - Handle multiple prompts asynchronously
      * Requirements: 6.4 - Queue requests efficiently
      * 
      * @param prompt The prompt to queue
      * @param token Optional cancellation token
-     * @returns Promise that resolves when the prompt is processed
+     * @param priority Scheduling class, derived from the prompt source by default
+     * @returns Promise that resolves with the security decision once the prompt is processed
      */
     private async queuePrompt(
         prompt: InterceptedPrompt,
-        token?: vscode.CancellationToken
-    ): Promise<InterceptedPrompt> {
+        token?: vscode.CancellationToken,
+        priority: PromptPriority = prompt.source === 'chat' ? 'interactive' : 'command'
+    ): Promise<SecurityDecision | undefined> {
         return new Promise((resolve, reject) => {
             // Check for cancellation before queuing
             if (token?.isCancellationRequested) {
@@ -253,6 +963,19 @@ export class Interceptor implements vscode.Disposable {
                 return;
             }
 
+            const caller: PendingCaller = { prompt, resolve, reject };
+            const contentHash = this.hashPromptContent(prompt);
+
+            // Attach to an identical request that is still pending
+            const pending = this.inFlightRequests.get(contentHash);
+            if (pending) {
+                pending.callers.push(caller);
+                this.promoteRequest(pending, priority);
+                this.performanceMonitor?.recordCoalescedRequest();
+                this.watchCancellation(pending, caller, token);
+                return;
+            }
+
             // Check queue capacity
             if (this.performanceMonitor && !this.performanceMonitor.canAcceptRequest()) {
                 this.performanceMonitor.recordDroppedRequest();
@@ -267,87 +990,199 @@ export class Interceptor implements vscode.Disposable {
 
             // Add to queue with timestamp
             const queuedRequest: QueuedRequest = { 
-                prompt, 
-                resolve, 
-                reject,
+                contentHash,
+                priority,
+                callers: [caller],
                 queuedAt: Date.now()
             };
-            this.requestQueue.push(queuedRequest);
+            this.inFlightRequests.set(contentHash, queuedRequest);
+            this.enqueue(queuedRequest);
 
             // Update performance monitor
             if (this.performanceMonitor) {
                 this.performanceMonitor.updateQueueStats(this.requestQueue.length);
             }
 
-            // Set up cancellation listener
-            if (token) {
-                const cancellationListener = token.onCancellationRequested(() => {
-                    const index = this.requestQueue.indexOf(queuedRequest);
-                    if (index !== -1) {
-                        this.requestQueue.splice(index, 1);
-                        if (this.performanceMonitor) {
-                            this.performanceMonitor.updateQueueStats(this.requestQueue.length);
-                        }
-                        reject(new Error('Cancelled'));
-                    }
-                    cancellationListener.dispose();
-                });
-            }
+            this.watchCancellation(queuedRequest, caller, token);
 
-            // Start processing if not already running
+            // Start a worker if one is free
             this.processQueue();
         });
     }
 
     /**
-     * Processes the request queue asynchronously.
-     * Requirements: 1.3 - Handle multiple prompts without blocking UI
-     * Requirements: 6.4 - Efficient queue management
+     * Detaches a caller from a request that is still queued when its token is cancelled.
+     * The request is dropped once no caller is left.
+     * 
+     * @param request The queued request
+     * @param caller The caller waiting for the request
+     * @param token Optional cancellation token of the caller
      */
-    private async processQueue(): Promise<void> {
-        // Prevent concurrent queue processing
-        if (this.isProcessing) {
+    private watchCancellation(
+        request: QueuedRequest,
+        caller: PendingCaller,
+        token?: vscode.CancellationToken
+    ): void {
+        if (!token) {
             return;
         }
 
-        this.isProcessing = true;
-
-        try {
-            while (this.requestQueue.length > 0) {
-                const request = this.requestQueue.shift();
-                if (!request) {
-                    continue;
+        caller.cancellationListener = token.onCancellationRequested(() => {
+            const index = this.requestQueue.indexOf(request);
+            const callerIndex = request.callers.indexOf(caller);
+            if (index !== -1 && callerIndex !== -1) {
+                request.callers.splice(callerIndex, 1);
+                
+                if (request.callers.length === 0) {
+                    this.requestQueue.splice(index, 1);
+                    this.inFlightRequests.delete(request.contentHash);
+                    if (this.performanceMonitor) {
+                        this.performanceMonitor.updateQueueStats(this.requestQueue.length);
+                    }
                 }
+                caller.reject(new Error('Cancelled'));
+            }
+            caller.cancellationListener?.dispose();
+        });
+    }
 
-                // Calculate wait time for metrics
-                const waitTime = Date.now() - request.queuedAt;
+    /**
+     * Moves a queued request up when a caller with a higher priority joins it.
+     * 
+     * @param request The queued request
+     * @param priority Priority of the joining caller
+     */
+    private promoteRequest(request: QueuedRequest, priority: PromptPriority): void {
+        const index = this.requestQueue.indexOf(request);
+        if (index === -1 || PRIORITY_RANK[priority] >= PRIORITY_RANK[request.priority]) {
+            return;
+        }
+
+        this.requestQueue.splice(index, 1);
+        request.priority = priority;
+        this.enqueue(request);
+    }
+
+    /**
+     * Inserts a request behind all waiting requests of the same or a higher priority,
+     * so requests run by priority class and in arrival order within a class.
+     * 
+     * @param request The request to insert
+     */
+    private enqueue(request: QueuedRequest): void {
+        const rank = PRIORITY_RANK[request.priority];
+        const index = this.requestQueue.findIndex(queued => PRIORITY_RANK[queued.priority] > rank);
+        
+        if (index === -1) {
+            this.requestQueue.push(request);
+        } else {
+            this.requestQueue.splice(index, 0, request);
+        }
+    }
+
+    /**
+     * Starts workers for waiting requests up to the concurrency limit.
+     * Requirements: 1.3 - Handle multiple prompts without blocking UI
+     * Requirements: 6.4 - Efficient queue management
+     */
+    private processQueue(): void {
+        while (this.activeWorkers < this.maxConcurrentWorkers && this.requestQueue.length > 0) {
+            this.activeWorkers++;
+            this.runWorker().finally(() => {
+                this.activeWorkers--;
                 
-                // Update queue stats
-                if (this.performanceMonitor) {
+                // Replace workers that stopped because the limit was lowered
+                this.processQueue();
+                
+                // Final queue stats update once the last worker is idle
+                if (this.activeWorkers === 0 && this.performanceMonitor) {
                     this.performanceMonitor.updateQueueStats(this.requestQueue.length);
-                    this.performanceMonitor.recordQueueProcessed(waitTime);
                 }
+            });
+        }
+    }
 
-                try {
-                    // Call the prompt handler if set
-                    if (this.promptHandler) {
-                        await this.promptHandler(request.prompt);
-                    }
-                    request.resolve(request.prompt);
-                } catch (error) {
-                    request.reject(error instanceof Error ? error : new Error(String(error)));
-                }
+    /**
+     * Processes queued requests until the queue is empty.
+     * Several workers run at the same time, so one slow analysis
+     * does not hold up the other requests.
+     */
+    private async runWorker(): Promise<void> {
+        while (this.requestQueue.length > 0 && this.activeWorkers <= this.maxConcurrentWorkers) {
+            const request = this.requestQueue.shift();
+            if (!request) {
+                continue;
             }
-        } finally {
-            this.isProcessing = false;
+
+            // Calculate wait time for metrics
+            const waitTime = Date.now() - request.queuedAt;
             
-            // Final queue stats update
+            // Update queue stats
             if (this.performanceMonitor) {
-                this.performanceMonitor.updateQueueStats(0);
+                this.performanceMonitor.updateQueueStats(this.requestQueue.length);
+                this.performanceMonitor.recordQueueProcessed(waitTime, request.priority);
             }
+
+            // The first remaining caller's prompt is analyzed on behalf of all callers
+            const [primary] = request.callers;
+
+            try {
+                // Call the prompt handler if set
+                const decision = this.promptHandler
+                    ? await this.promptHandler(primary.prompt)
+                    : undefined;
+                this.inFlightRequests.delete(request.contentHash);
+                this.releaseCallers(request);
+                
+                // Fan the decision out, each caller receiving it for its own prompt
+                for (const caller of request.callers) {
+                    caller.resolve(decision && caller !== primary
+                        ? { ...decision, originalPrompt: caller.prompt }
+                        : decision);
+                }
+            } catch (error) {
+                this.inFlightRequests.delete(request.contentHash);
+                this.releaseCallers(request);
+                
+                const reason = error instanceof Error ? error : new Error(String(error));
+                for (const caller of request.callers) {
+                    caller.reject(reason);
+                }
+            }
+        }
+    }
+
+    /**
+     * Stops watching the cancellation tokens of a request's callers once the
+     * request is settled.
+     * 
+     * @param request The settled request
+     */
+    private releaseCallers(request: QueuedRequest): void {
+        for (const caller of request.callers) {
+            caller.cancellationListener?.dispose();
+            caller.cancellationListener = undefined;
         }
     }
 
+    /**
+     * Hashes everything the analysis depends on, so only prompts that would
+     * yield the same result are coalesced. The source is included because the
+     * prompt handler notifies chat and command callers differently.
+     * 
+     * @param prompt The prompt to hash
+     * @returns SHA-256 hash of the prompt source, content, conversation window and references
+     */
+    private hashPromptContent(prompt: InterceptedPrompt): string {
+        const key = JSON.stringify([
+            prompt.source,
+            prompt.content,
+            prompt.conversation ?? [],
+            (prompt.references ?? []).map(reference => [reference.label, reference.content])
+        ]);
+        return crypto.createHash('sha256').update(key).digest('hex');
+    }
+
     /**
      * Gets the current queue length.
      * Useful for monitoring and testing.
@@ -364,7 +1199,16 @@ export class Interceptor implements vscode.Disposable {
      * @returns true if processing, false otherwise
      */
     public isCurrentlyProcessing(): boolean {
-        return this.isProcessing;
+        return this.activeWorkers > 0;
+    }
+
+    /**
+     * Gets the number of workers currently analyzing a prompt.
+     * 
+     * @returns Number of busy workers
+     */
+    public getActiveWorkerCount(): number {
+        return this.activeWorkers;
     }
 
     /**
@@ -401,9 +1245,13 @@ export class Interceptor implements vscode.Disposable {
     public dispose(): void {
         // Reject any pending requests
         for (const request of this.requestQueue) {
-            request.reject(new Error('Interceptor disposed'));
+            this.releaseCallers(request);
+            for (const caller of request.callers) {
+                caller.reject(new Error('Interceptor disposed'));
+            }
         }
         this.requestQueue = [];
+        this.inFlightRequests.clear();
 
         // Dispose all subscriptions
         for (const disposable of this.disposables) {
@@ -0,0 +1,284 @@
+import { LanguagePackId, ThreatPattern } from '../types';
+
+/**
+ * Threat categories covered by language packs
+ */
+type LocalizedThreatType = Extract<ThreatPattern['type'], 'rule_bypass' | 'secret_extraction' | 'command_injection' | 'role_manipulation'>;
+
+/**
+ * Injection phrases of one language.
+ *
+ * Phrases are regular expressions in which a space stands for a word break.
+ * Scripts written with spaces between words require whitespace there and a
+ * word start before the phrase; scripts written without them (Chinese,
+ * Japanese) allow but do not require whitespace, and match inside a sentence.
+ * As in English ("developer mode enabled"), a mode only counts when it is
+ * stated as switched on, so questions about enabling one are not flagged.
+ */
+interface LanguagePack {
+    spaced: boolean;
+    phrases: Record<LocalizedThreatType, string[]>;
+}
+
+/**
+ * Built-in language packs, covering the same categories as the English patterns
+ */
+const LANGUAGE_PACKS: Record<LanguagePackId, LanguagePack> = {
+    // Spanish
+    es: {
+        spaced: true,
+        phrases: {
+            rule_bypass: [
+                '(?:ignora|ignore|ignorar|olvida|olvide|olvidar|descarta|omite) (?:todas? )?(?:las |los |tus |sus )?(?:instrucciones|reglas|indicaciones|directrices|órdenes) (?:anteriores|previas|de arriba)',
+                '(?:desactiva|desactive|desactivar|evita|elude|salta) (?:todos )?(?:los |las |tus )?(?:filtros|restricciones|controles|reglas) de (?:seguridad|contenido)',
+                'nuevas instrucciones(?: del sistema)?:',
+                'modo (?:desarrollador|sin restricciones|sin censura):? (?:(?:está|ha sido) )?(?:activado|habilitado|activo)(?![\\p{L}\\p{N}])'
+            ],
+            secret_extraction: [
+                '(?:revela|muestra|muéstrame|dime|imprime|enséñame|repite) (?:tu |tus |el |la |las )?(?:prompt|mensaje|instrucciones|indicaciones) (?:del |de )?sistema',
+                '(?:revela|muestra|muéstrame|dime|imprime|filtra|extrae) (?:tus |tu |las |los )?(?:claves(?: de API)?|secretos|credenciales|contraseñas|tokens)',
+                '(?:muestra|muéstrame|imprime|lista) (?:todas )?(?:las )?variables de entorno'
+            ],
+            command_injection: [
+                '(?:ejecuta|ejecute|ejecutar|corre) (?:este |esta |el siguiente |el )?(?:comando|script|shell|bash)'
+            ],
+            role_manipulation: [
+                '(?:ahora eres|eres ahora) (?:un|una|el|la)',
+                'actúa como (?:un|una|si fueras)',
+                'finge (?:ser|que eres)',
+                'imagina que eres',
+                'a partir de ahora,? (?:eres|serás|vas a)',
+                'tu nueva (?:identidad|personalidad|nombre) es'
+            ]
+        }
+    },
+    // German
+    de: {
+        spaced: true,
+        phrases: {
+            rule_bypass: [
+                '(?:ignoriere|ignorier|vergiss|missachte|verwirf) (?:die |alle |deine )?(?:vorherigen|bisherigen|vorigen|obigen|früheren) (?:Anweisungen|Regeln|Vorgaben|Instruktionen|Richtlinien)',
+                '(?:deaktiviere|umgehe|ignoriere) (?:alle |die )?(?:Sicherheits|Inhalts)(?:filter|regeln|beschränkungen|prüfungen|richtlinien)',
+                'neue (?:System)?anweisungen:',
+                'Entwicklermodus:? (?:ist )?(?:aktiviert|aktiv|eingeschaltet)(?![\\p{L}\\p{N}])'
+            ],
+            secret_extraction: [
+                '(?:zeige|zeig|verrate|gib|nenne|drucke|wiederhole) (?:mir )?(?:deinen |deine |den |die )?(?:System-?prompt|Systemanweisungen|Systemnachricht)',
+                '(?:zeige|zeig|verrate|gib|nenne) (?:mir )?(?:deine |die |alle )?(?:API-?Schlüssel|Geheimnisse|Zugangsdaten|Passwörter|Token)',
+                '(?:zeige|zeig|liste|gib) (?:mir )?(?:alle )?Umgebungsvariablen'
+            ],
+            command_injection: [
+                '(?:führe|führ) (?:diesen |den folgenden |dieses |das folgende )?(?:Befehl|Skript|Shell-?Befehl|Kommando) aus',
+                '(?:Befehl|Skript|Kommando) ausführen'
+            ],
+            role_manipulation: [
+                'du bist (?:jetzt|nun|ab sofort) (?:ein|eine|der|die|das)',
+                '(?:tu|tue) so, als (?:ob du|wärst du)',
+                '(?:handle|agiere|verhalte dich) (?:jetzt )?(?:als|wie) (?:ein|eine|wenn)',
+                'stell dir vor, du bist',
+                'ab (?:jetzt|sofort) (?:bist du|wirst du)',
+                'deine neue (?:Identität|Rolle|Persona) ist'
+            ]
+        }
+    },
+    // French
+    fr: {
+        spaced: true,
+        phrases: {
+            rule_bypass: [
+                '(?:ignore|ignorez|oublie|oubliez|néglige|négligez) (?:toutes )?(?:les |tes |vos )?(?:instructions|règles|consignes|directives) (?:précédentes|antérieures|ci-dessus)',
+                '(?:désactive|désactivez|contourne|contournez) (?:tous )?(?:les )?(?:filtres|règles|contrôles|restrictions) de (?:sécurité|contenu)',
+                'nouvelles instructions(?: système)?:',
+                'mode développeur:? (?:(?:est )?activé|actif)(?![\\p{L}\\p{N}])'
+            ],
+            secret_extraction: [
+                '(?:révèle|révélez|montre|montrez|affiche|affichez|donne|donnez|répète|répétez)(?:-moi)? (?:ton |votre |le |tes |vos |les )?(?:prompt|message|invite|instructions) (?:du )?système',
+                '(?:révèle|révélez|montre|montrez|affiche|affichez|donne|donnez)(?:-moi)? (?:tes |vos |les )?(?:clés d[\'’]API|clés API|secrets|identifiants|mots de passe|jetons)',
+                '(?:affiche|affichez|liste|listez|montre|montrez)(?:-moi)? (?:toutes )?les variables d[\'’]environnement'
+            ],
+            command_injection: [
+                '(?:exécute|exécutez|lance|lancez) (?:cette |ce |la |le )?(?:commande|script|shell|bash)'
+            ],
+            role_manipulation: [
+                'tu es (?:maintenant|désormais) (?:un|une|le|la)',
+                '(?:agis|agissez) comme (?:un|une|si)',
+                'fais semblant d[\'’]être',
+                'imagine que tu es',
+                'à partir de maintenant,? tu (?:es|seras|vas)',
+                'ta nouvelle (?:identité|personnalité|persona) est'
+            ]
+        }
+    },
+    // Portuguese
+    pt: {
+        spaced: true,
+        phrases: {
+            rule_bypass: [
+                '(?:ignore|ignora|esqueça|esquece|desconsidere|desconsidera) (?:todas )?(?:as )?(?:instruções|regras|diretrizes|orientações) (?:anteriores|prévias|acima)',
+                '(?:desative|desativa|contorne|contorna) (?:todos )?(?:os )?(?:filtros|controles|restrições|regras) de (?:segurança|conteúdo)',
+                'novas instruções(?: do sistema)?:',
+                'modo (?:desenvolvedor|sem restrições):? (?:(?:está|foi) )?(?:ativado|habilitado|ativo)(?![\\p{L}\\p{N}])'
+            ],
+            secret_extraction: [
+                '(?:revele|revela|mostre|mostra|diga|imprima|repita) (?:o |seu |teu |as |suas )?(?:prompt|mensagem|instruções) (?:do |de )?sistema',
+                '(?:revele|revela|mostre|mostra|diga|imprima) (?:suas |seus |as |os )?(?:chaves(?: de API)?|segredos|credenciais|senhas|tokens)',
+                '(?:mostre|mostra|liste|lista|imprima) (?:todas )?(?:as )?variáveis de ambiente'
+            ],
+            command_injection: [
+                '(?:execute|executa|rode|roda) (?:este |esse |o seguinte |o )?(?:comando|script|shell|bash)'
+            ],
+            role_manipulation: [
+                '(?:você|tu) (?:é|és) agora (?:um|uma|o|a)',
+                'agora (?:você|tu) (?:é|és) (?:um|uma|o|a)',
+                '(?:aja|age|atue) como (?:um|uma|se)',
+                'finja (?:ser|que (?:é|você é))',
+                'imagine que (?:você|tu) (?:é|és)',
+                'a partir de agora,? (?:você|tu) (?:é|és|será|vai)',
+                'sua nova (?:identidade|persona|personalidade) é'
+            ]
+        }
+    },
+    // Russian
+    ru: {
+        spaced: true,
+        phrases: {
+            rule_bypass: [
+                '(?:игнорируй|игнорируйте|забудь|забудьте|отбрось|отбросьте) (?:все )?(?:предыдущие|прежние|вышеуказанные|прошлые) (?:инструкции|правила|указания|установки)',
+                'не обращай внимания на (?:все )?(?:предыдущие|прежние) (?:инструкции|правила|указания)',
+                '(?:отключи|отключите|обойди|обойдите) (?:все )?(?:фильтры|правила|ограничения|проверки) (?:безопасности|контента)',
+                'новые (?:системные )?инструкции:',
+                'режим разработчика:? (?:(?:был )?(?:включ[её]н|активирован)|активен)(?![\\p{L}\\p{N}])'
+            ],
+            secret_extraction: [
+                '(?:покажи|покажите|раскрой|выведи|напечатай|повтори|скажи) (?:мне )?(?:свой |твой |ваш )?(?:системный (?:промпт|запрос)|системные инструкции|системное сообщение)',
+                '(?:покажи|покажите|раскрой|выведи|скажи) (?:мне )?(?:свои |твои |все )?(?:API-?ключи|ключи API|секреты|пароли|токены|уч[её]тные данные)',
+                '(?:покажи|покажите|выведи|перечисли) (?:все )?переменные (?:окружения|среды)'
+            ],
+            command_injection: [
+                '(?:выполни|выполните|запусти|запустите) (?:эту |этот |следующую |следующий )?(?:команду|скрипт|shell|bash)'
+            ],
+            role_manipulation: [
+                '(?:теперь ты|ты теперь) (?:являешься|будешь|—)',
+                '(?:веди себя|действуй) как',
+                'притворись,? (?:что|будто) ты',
+                'представь,? что ты',
+                'с этого момента ты',
+                'твоя новая (?:личность|роль|персона)'
+            ]
+        }
+    },
+    // Chinese
+    zh: {
+        spaced: false,
+        phrases: {
+            rule_bypass: [
+                '(?:忽略|无视|忽视|忘记|忘掉|無視|忘記) (?:你 )?(?:所有 |全部 |一切 )?(?:之前|以前|先前|上面|上述|前面) (?:的 )?(?:所有 |全部 )?(?:指令|指示|说明|說明|规则|規則|提示|要求)',
+                '(?:绕过|绕开|关闭|禁用|繞過|關閉) (?:所有 )?(?:的 )?(?:安全|内容|內容) (?:过滤|限制|检查|规则|過濾|檢查|規則)',
+                '新 的? (?:系统 |系統 )?指令 [:：]',
+                '(?:开发者|開發者) 模式 (?:已 (?:经 )?|[:：] )(?:启用|开启|激活|打开|啟用|開啟|啟動|打開)',
+                '(?:越狱|越獄)'
+            ],
+            secret_extraction: [
+                '(?:显示|告诉我|输出|打印|泄露|透露|重复|展示|顯示|告訴我|輸出|洩露) (?:你 的 )?(?:系统|系統) (?:提示词|提示詞|提示|指令|消息|訊息)',
+                '(?:显示|告诉我|输出|打印|泄露|透露|顯示|告訴我|輸出|洩露) (?:你 的 )?(?:API 密钥|API 金鑰|密钥|秘钥|密码|密碼|凭据|凭证|令牌)',
+                '(?:列出|显示|打印|输出|顯示|輸出) (?:所有 )?(?:的 )?(?:环境变量|環境變數)'
+            ],
+            command_injection: [
+                '(?:执行|运行|執行|運行) (?:这个 |这条 |以下 |下面 的? |這個 |這條 )?(?:命令|脚本|腳本|shell|bash)'
+            ],
+            role_manipulation: [
+                '你 (?:现在|現在) (?:是|扮演)',
+                '扮演 (?:一个|一位|一個)',
+                '(?:假装|假裝) 你是',
+                '(?:从现在开始|從現在開始) [,，]? 你 (?:是|将|將|要)',
+                '(?:想象|想像) 你是',
+                '你 的 新 (?:身份|角色|名字)'
+            ]
+        }
+    },
+    // Japanese
+    ja: {
+        spaced: false,
+        phrases: {
+            rule_bypass: [
+                '(?:これまで|以前|前|上記|先ほど) の (?:すべて の |全て の )?(?:指示|命令|ルール|指令|設定) (?:を )?(?:すべて |全て )?(?:無視|忘れ)',
+                '(?:すべて|全て) の (?:指示|命令|ルール) (?:を )?(?:無視|忘れ)',
+                '(?:安全|セキュリティ|コンテンツ) (?:フィルター|制限|チェック|ルール) (?:を )?(?:無効|回避|解除)',
+                '新しい (?:システム )?指示 [:：]',
+                '開発者 モード (?:が (?:有効|オン) に (?:なり|なっ)|[:：] (?:有効|オン))',
+                '脱獄'
+            ],
+            secret_extraction: [
+                'システム プロンプト (?:を )?(?:表示|教え|見せ|出力|公開|繰り返)',
+                '(?:API キー|秘密鍵|シークレット|パスワード|認証情報|トークン) (?:を )?(?:表示|教え|見せ|出力|漏らし)',
+                '環境変数 (?:を )?(?:すべて |全て )?(?:表示|一覧|出力|見せ)'
+            ],
+            command_injection: [
+                '(?:この|次 の|以下 の) (?:コマンド|スクリプト|シェル) (?:を )?(?:実行|走らせ)',
+                '(?:コマンド|スクリプト) (?:を )?実行 (?:して|しろ|せよ)'
+            ],
+            role_manipulation: [
+                '(?:今から|これから|今後) (?:あなた|君|お前) は',
+                'ふり を して',
+                'として (?:振る舞|ふるま|行動|答え)',
+                'あなた の 新しい (?:名前|役割|人格)'
+            ]
+        }
+    }
+};
+
+/**
+ * Identifiers of the built-in language packs
+ */
+export const LANGUAGE_PACK_IDS = Object.keys(LANGUAGE_PACKS) as LanguagePackId[];
+
+/**
+ * Compiles a phrase for the way its script separates words.
+ */
+function compilePhrase(phrase: string, spaced: boolean): RegExp {
+    const source = spaced
+        ? `(?<![\\p{L}\\p{N}])${phrase.replace(/ /g, '\\s+')}`
+        : phrase.replace(/ /g, '\\s*');
+    return new RegExp(source, 'iu');
+}
+
+/**
+ * Compiled patterns of each pack, built on first use
+ */
+const compiledPacks = new Map<LanguagePackId, Record<LocalizedThreatType, RegExp[]>>();
+
+/**
+ * Gets the patterns of the active language packs, by threat category.
+ * Unknown pack identifiers are ignored.
+ *
+ * @param ids Identifiers of the active packs
+ * @returns Patterns to add to each category
+ */
+export function getLanguagePackPatterns(ids: string[]): Map<ThreatPattern['type'], RegExp[]> {
+    const patterns = new Map<ThreatPattern['type'], RegExp[]>();
+
+    for (const id of ids) {
+        if (!LANGUAGE_PACK_IDS.includes(id as LanguagePackId)) {
+            continue;
+        }
+
+        const packId = id as LanguagePackId;
+        let compiled = compiledPacks.get(packId);
+        if (!compiled) {
+            const pack = LANGUAGE_PACKS[packId];
+            compiled = {
+                rule_bypass: pack.phrases.rule_bypass.map(phrase => compilePhrase(phrase, pack.spaced)),
+                secret_extraction: pack.phrases.secret_extraction.map(phrase => compilePhrase(phrase, pack.spaced)),
+                command_injection: pack.phrases.command_injection.map(phrase => compilePhrase(phrase, pack.spaced)),
+                role_manipulation: pack.phrases.role_manipulation.map(phrase => compilePhrase(phrase, pack.spaced))
+            };
+            compiledPacks.set(packId, compiled);
+        }
+
+        for (const [type, regexes] of Object.entries(compiled) as Array<[LocalizedThreatType, RegExp[]]>) {
+            patterns.set(type, [...(patterns.get(type) ?? []), ...regexes]);
+        }
+    }
+
+    return patterns;
+}
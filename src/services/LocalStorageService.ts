@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import * as crypto from 'crypto';
-import { SecurityEvent, SecurityAnalysis, InterceptedPrompt } from '../types';
+import { SecurityEvent, SecurityAnalysis, SecurityDecision, InterceptedPrompt, PiiType, PromptSanitization } from '../types';
 
 /**
  * Configuration for local storage service
@@ -20,7 +20,7 @@ export interface StoredAnalysisResult {
     timestamp: Date;
     promptHash: string;
     analysis: SecurityAnalysis;
-    decision: 'allow' | 'block' | 'warn';
+    decision: SecurityDecision['action'];
 }
 
 /**
@@ -149,7 +149,7 @@ export class LocalStorageService implements vscode.Disposable {
     public async storeAnalysisResult(
         prompt: InterceptedPrompt,
         analysis: SecurityAnalysis,
-        decision: 'allow' | 'block' | 'warn'
+        decision: SecurityDecision['action']
     ): Promise<StoredAnalysisResult> {
         const result: StoredAnalysisResult = {
             id: this.generateId(),
@@ -192,17 +192,27 @@ export class LocalStorageService implements vscode.Disposable {
     /**
      * Validates that a prompt passes through unchanged for safe prompts.
      * This ensures data integrity by verifying the prompt content is not modified.
+     * For sanitized prompts, verifies instead that the original is the prompt
+     * that was sanitized and the passed prompt is exactly its sanitized form.
      * 
      * Requirements: 7.4
      * 
      * @param originalPrompt The original intercepted prompt
      * @param passedPrompt The prompt after processing
-     * @returns true if the prompt content is unchanged
+     * @param sanitization The sanitization of the original prompt, if it was sanitized
+     * @returns true if the prompt content is unchanged, or is the sanitized content
      */
     public validatePromptIntegrity(
         originalPrompt: InterceptedPrompt,
-        passedPrompt: InterceptedPrompt
+        passedPrompt: InterceptedPrompt,
+        sanitization?: PromptSanitization
     ): boolean {
+        if (sanitization) {
+            return this.hashContent(originalPrompt.content) === sanitization.originalHash &&
+                this.hashContent(passedPrompt.content) === sanitization.sanitizedHash &&
+                passedPrompt.content === sanitization.prompt.content;
+        }
+
         // Verify content is exactly the same
         if (originalPrompt.content !== passedPrompt.content) {
             return false;
@@ -297,7 +307,7 @@ export class LocalStorageService implements vscode.Disposable {
      * @param decision The decision type to filter by
      * @returns Filtered array of analysis results
      */
-    public getAnalysisResultsByDecision(decision: 'allow' | 'block' | 'warn'): StoredAnalysisResult[] {
+    public getAnalysisResultsByDecision(decision: SecurityDecision['action']): StoredAnalysisResult[] {
         return this.analysisResults.filter(result => result.decision === decision);
     }
 
@@ -314,6 +324,7 @@ export class LocalStorageService implements vscode.Disposable {
 
     /**
      * Gets statistics from the stored data.
+     * PII counts are the number of personal data items found in prompts, by type.
      */
     public getStatistics(): {
         totalAuditEvents: number;
@@ -321,12 +332,22 @@ export class LocalStorageService implements vscode.Disposable {
         blockedCount: number;
         allowedCount: number;
         warnCount: number;
+        sanitizeCount: number;
         oldestAuditEvent: Date | null;
         newestAuditEvent: Date | null;
+        piiCounts: Record<PiiType, number>;
     } {
         const blockedCount = this.analysisResults.filter(r => r.decision === 'block').length;
         const allowedCount = this.analysisResults.filter(r => r.decision === 'allow').length;
         const warnCount = this.analysisResults.filter(r => r.decision === 'warn').length;
+        const sanitizeCount = this.analysisResults.filter(r => r.decision === 'sanitize').length;
+
+        const piiCounts: Record<PiiType, number> = { email: 0, phone: 0, national_id: 0, iban: 0, credit_card: 0 };
+        for (const event of this.auditLog) {
+            for (const [type, count] of Object.entries(event.piiCounts ?? {}) as Array<[PiiType, number]>) {
+                piiCounts[type] += count;
+            }
+        }
 
         return {
             totalAuditEvents: this.auditLog.length,
@@ -334,8 +355,10 @@ export class LocalStorageService implements vscode.Disposable {
             blockedCount,
             allowedCount,
             warnCount,
+            sanitizeCount,
             oldestAuditEvent: this.auditLog.length > 0 ? this.auditLog[0].timestamp : null,
-            newestAuditEvent: this.auditLog.length > 0 ? this.auditLog[this.auditLog.length - 1].timestamp : null
+            newestAuditEvent: this.auditLog.length > 0 ? this.auditLog[this.auditLog.length - 1].timestamp : null,
+            piiCounts
         };
     }
 
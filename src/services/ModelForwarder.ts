@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import { InterceptedPrompt, PiiFinding, ResponseFinding, SecretFinding } from '../types';
+import { ConfigurationService } from './ConfigurationService';
+import { PiiDetector } from './PiiDetector';
+import { ResponseFilter } from './ResponseFilter';
+import { SecretScanner } from './SecretScanner';
+
+/**
+ * Result of forwarding a prompt to the downstream language model
+ */
+export interface ForwardResult {
+    modelId: string;
+    modelName: string;
+    fragmentCount: number;
+    responseFindings: ResponseFinding[];
+    redactedSecrets: SecretFinding[];
+    redactedPii: PiiFinding[];
+}
+
+/**
+ * ModelForwarder sends prompts that passed the Gatekeeper on to the
+ * configured downstream language model through the `vscode.lm` API and
+ * streams the model's answer back into the chat response.
+ *
+ * Only prompts that have been explicitly allowed (or confirmed by the user)
+ * should ever be passed to this component. With secret redaction enabled,
+ * credentials in the prompt, its attached context and the replayed history
+ * are replaced with placeholders before anything is sent, and so is personal
+ * data whose configured action is redact.
+ */
+export class ModelForwarder {
+    private selector: vscode.LanguageModelChatSelector;
+    private responseFilter: ResponseFilter | undefined;
+    private piiDetector: PiiDetector | undefined;
+    private secretScanner: SecretScanner = new SecretScanner();
+    private redactSecrets: boolean;
+
+    constructor(configService?: ConfigurationService) {
+        if (configService) {
+            this.selector = configService.getTargetModelSelector();
+            this.redactSecrets = configService.isSecretRedactionEnabled();
+        } else {
+            // Fall back to direct VS Code config access
+            const config = vscode.workspace.getConfiguration('cloak');
+            const vendor = config.get<string>('targetModelVendor', 'copilot');
+            const family = config.get<string>('targetModelFamily', '');
+            this.selector = {};
+            if (vendor) {
+                this.selector.vendor = vendor;
+            }
+            if (family) {
+                this.selector.family = family;
+            }
+            this.redactSecrets = config.get<boolean>('redactSecrets', true);
+        }
+    }
+
+    /**
+     * Sets the filter that checks model output before it reaches the user.
+     *
+     * @param filter The response filter instance
+     */
+    public setResponseFilter(filter: ResponseFilter): void {
+        this.responseFilter = filter;
+    }
+
+    /**
+     * Sets the detector for personal data that is redacted before forwarding.
+     *
+     * @param detector The PII detector instance
+     */
+    public setPiiDetector(detector: PiiDetector): void {
+        this.piiDetector = detector;
+    }
+
+    /**
+     * Selects the downstream language model matching the configured selector.
+     *
+     * @returns The first matching model, or undefined if none is available
+     */
+    public async selectModel(): Promise<vscode.LanguageModelChat | undefined> {
+        const models = await vscode.lm.selectChatModels(this.selector);
+        return models[0];
+    }
+
+    /**
+     * Forwards a prompt to the downstream model and streams the response.
+     * Resolved chat references are sent along as context, and the model output
+     * passes through the response filter before it is written to the stream.
+     *
+     * @param prompt The prompt to forward
+     * @param context Chat context used to replay earlier forwarded turns
+     * @param stream Response stream the model output is written to
+     * @param token Cancellation token
+     * @returns Details about the model that answered
+     */
+    public async forward(
+        prompt: InterceptedPrompt,
+        context: vscode.ChatContext,
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<ForwardResult> {
+        const model = await this.selectModel();
+
+        if (!model) {
+            throw new Error(`No language model available for ${this.describeSelector()}`);
+        }
+
+        const { messages, redactedSecrets, redactedPii } = this.buildMessages(prompt, context);
+        const redacted = [...redactedSecrets, ...redactedPii];
+        if (redacted.length > 0) {
+            const types = [...new Set(redacted.map(finding => finding.type))];
+            const noun = redacted.length === 1 ? 'item' : 'items';
+            stream.markdown(`🔒 Redacted ${redacted.length} ${noun} (${types.join(', ')}) before forwarding.\n\n`);
+        }
+
+        stream.progress(`Forwarding to ${model.name}...`);
+
+        const response = await model.sendRequest(
+            messages,
+            { justification: 'Cloak forwards prompts that passed security analysis to the selected model.' },
+            token
+        );
+
+        const session = this.responseFilter?.isEnabled() ? this.responseFilter.createSession() : undefined;
+
+        let fragmentCount = 0;
+        for await (const fragment of response.text) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            fragmentCount++;
+
+            const output = session ? session.push(fragment) : fragment;
+            if (output) {
+                stream.markdown(output);
+            }
+        }
+
+        const remaining = session?.flush();
+        if (remaining) {
+            stream.markdown(remaining);
+        }
+
+        return {
+            modelId: model.id,
+            modelName: model.name,
+            fragmentCount,
+            responseFindings: session?.getFindings() ?? [],
+            redactedSecrets,
+            redactedPii
+        };
+    }
+
+    /**
+     * Builds the message list for the downstream model.
+     * Earlier turns are replayed only if they were forwarded themselves, so
+     * blocked or declined prompts never leave through the history.
+     * Secrets and personal data are redacted from every message; only those
+     * in the current prompt and its attached context are reported, since the
+     * history was reported when it was first forwarded.
+     *
+     * @param prompt The current prompt
+     * @param context Chat context with the conversation history
+     * @returns Messages to send to the model and what was redacted from the current prompt
+     */
+    private buildMessages(
+        prompt: InterceptedPrompt,
+        context: vscode.ChatContext
+    ): { messages: vscode.LanguageModelChatMessage[]; redactedSecrets: SecretFinding[]; redactedPii: PiiFinding[] } {
+        const messages: vscode.LanguageModelChatMessage[] = [];
+        const redactedSecrets: SecretFinding[] = [];
+        const redactedPii: PiiFinding[] = [];
+        const redact = (text: string, report: boolean) => {
+            if (this.redactSecrets) {
+                const result = this.secretScanner.redact(text);
+                text = result.text;
+                if (report) {
+                    redactedSecrets.push(...result.findings);
+                }
+            }
+            if (this.piiDetector) {
+                const result = this.piiDetector.redact(text);
+                text = result.text;
+                if (report) {
+                    redactedPii.push(...result.findings);
+                }
+            }
+            return text;
+        };
+        let pendingRequest: vscode.ChatRequestTurn | undefined;
+
+        for (const turn of context.history) {
+            if (turn instanceof vscode.ChatRequestTurn) {
+                pendingRequest = turn;
+                continue;
+            }
+
+            if (turn instanceof vscode.ChatResponseTurn && pendingRequest) {
+                if (turn.result.metadata?.forwarded === true) {
+                    messages.push(vscode.LanguageModelChatMessage.User(redact(pendingRequest.prompt, false)));
+                    messages.push(vscode.LanguageModelChatMessage.Assistant(redact(this.getResponseText(turn), false)));
+                }
+                pendingRequest = undefined;
+            }
+        }
+
+        for (const reference of prompt.references ?? []) {
+            messages.push(vscode.LanguageModelChatMessage.User(
+                `Attached context (${reference.label}):\n\n${redact(reference.content, true)}`
+            ));
+        }
+
+        messages.push(vscode.LanguageModelChatMessage.User(redact(prompt.content, true)));
+        return { messages, redactedSecrets, redactedPii };
+    }
+
+    /**
+     * Extracts the markdown text of a previous response turn.
+     */
+    private getResponseText(turn: vscode.ChatResponseTurn): string {
+        return turn.response
+            .filter((part): part is vscode.ChatResponseMarkdownPart => part instanceof vscode.ChatResponseMarkdownPart)
+            .map(part => part.value.value)
+            .join('');
+    }
+
+    /**
+     * Describes the configured selector for error messages.
+     */
+    private describeSelector(): string {
+        const parts: string[] = [];
+        if (this.selector.vendor) {
+            parts.push(`vendor "${this.selector.vendor}"`);
+        }
+        if (this.selector.family) {
+            parts.push(`family "${this.selector.family}"`);
+        }
+        return parts.length > 0 ? parts.join(', ') : 'any vendor';
+    }
+
+    /**
+     * Updates the downstream model selector.
+     * Requirements: 8.4 - Hot reloading support
+     *
+     * @param selector New language model selector
+     */
+    public updateSelector(selector: vscode.LanguageModelChatSelector): void {
+        this.selector = { ...selector };
+    }
+
+    /**
+     * Enables or disables redaction of secrets in forwarded prompts.
+     * Requirements: 8.4 - Hot reloading support
+     *
+     * @param enabled Whether secrets are redacted
+     */
+    public updateSecretRedaction(enabled: boolean): void {
+        this.redactSecrets = enabled;
+    }
+
+    /**
+     * Gets the current downstream model selector.
+     */
+    public getSelector(): vscode.LanguageModelChatSelector {
+        return { ...this.selector };
+    }
+}
@@ -0,0 +1,290 @@
+import { DecodingStep, TextLocation } from '../types';
+
+/**
+ * How offsets in a decoded variant relate to the text it was decoded from
+ * - aligned: character i of the variant is character `start + i` of the source
+ * - reversed: character i of the variant is character `end - 1 - i` of the source
+ * - opaque: the variant as a whole comes from the source range `start`-`end`
+ */
+type VariantAlignment = 'aligned' | 'reversed' | 'opaque';
+
+/**
+ * Text obtained by decoding or transforming a segment of the original text
+ */
+export interface DecodedVariant {
+    text: string;
+    /** Steps applied to the original text, outermost first */
+    chain: DecodingStep[];
+    /** Range of the original text the variant was decoded from */
+    start: number;
+    end: number;
+    alignment: VariantAlignment;
+}
+
+/**
+ * Decoded segment of a text, with its range in that text
+ */
+interface DecodedSegment {
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Maximum number of decoding steps applied on top of each other
+ */
+const MAX_DECODING_DEPTH = 3;
+
+/**
+ * Maximum number of variants produced for a single text
+ */
+const MAX_VARIANTS = 64;
+
+/**
+ * Candidate segments for each encoding. Candidates are only used if they
+ * decode to readable text.
+ */
+const BASE64_SEGMENT = /[A-Za-z0-9+/_-]{16,}={0,2}/g;
+const HEX_SEGMENT = /(?:\\x[0-9A-Fa-f]{2}){4,}|\b[0-9A-Fa-f]{2}(?:[ :]?[0-9A-Fa-f]{2}){7,}\b/g;
+const URL_ENCODED_SEGMENT = /(?:%[0-9A-Fa-f]{2}|[A-Za-z0-9._~+\-!*'()])+/g;
+const HTML_ENTITY_SEGMENT = /(?:&(?:#[0-9]{1,7}|#[xX][0-9A-Fa-f]{1,6}|[a-zA-Z]{2,6});|[^<>&\r\n])+/g;
+
+/**
+ * Minimum number of escapes before a segment is treated as encoded
+ */
+const MIN_ESCAPES = 3;
+
+/**
+ * Named HTML entities that are decoded
+ */
+const HTML_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ', sol: '/', colon: ':', lpar: '(', rpar: ')'
+};
+
+/**
+ * Leetspeak substitutions, one character each so offsets are kept
+ */
+const LEETSPEAK: Record<string, string> = {
+    '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '|': 'l'
+};
+
+/**
+ * A word that mixes letters with leetspeak substitutions, such as "1gn0re"
+ */
+const LEETSPEAK_WORD = /[A-Za-z][013457@$|]|[013457@$|][A-Za-z]/;
+
+/**
+ * PayloadDecoder uncovers text hidden behind common encodings and obfuscations,
+ * so local pattern detection sees what the model would see after decoding.
+ *
+ * Responsibilities:
+ * - Decode base64, hex, URL-encoded and HTML-entity segments that decode to readable text
+ * - Transform text with ROT13, reversal and leetspeak substitution
+ * - Apply steps on top of each other up to a bounded depth, recording the chain
+ * - Map locations in decoded text back to the original text
+ */
+export class PayloadDecoder {
+    /**
+     * Produces the decoded and transformed variants of a text.
+     *
+     * @param content The original text
+     * @returns Variants that differ from the text they were produced from
+     */
+    public decode(content: string): DecodedVariant[] {
+        const variants: DecodedVariant[] = [];
+        const seen = new Set<string>([content]);
+        const root: DecodedVariant = { text: content, chain: [], start: 0, end: content.length, alignment: 'aligned' };
+        let frontier = [root];
+
+        for (let depth = 0; depth < MAX_DECODING_DEPTH && frontier.length > 0; depth++) {
+            const next: DecodedVariant[] = [];
+
+            for (const parent of frontier) {
+                for (const variant of this.expand(parent)) {
+                    if (variants.length >= MAX_VARIANTS) {
+                        return variants;
+                    }
+                    if (seen.has(variant.text)) {
+                        continue;
+                    }
+                    seen.add(variant.text);
+                    variants.push(variant);
+                    next.push(variant);
+                }
+            }
+
+            frontier = next;
+        }
+
+        return variants;
+    }
+
+    /**
+     * Maps a location in a variant back to the original text.
+     *
+     * @param variant The variant the location refers to
+     * @param location Location in the variant text
+     * @returns Location in the original text
+     */
+    public locate(variant: DecodedVariant, location: TextLocation): TextLocation {
+        switch (variant.alignment) {
+            case 'aligned':
+                return { start: variant.start + location.start, end: variant.start + location.end };
+            case 'reversed':
+                return { start: variant.end - location.end, end: variant.end - location.start };
+            default:
+                return { start: variant.start, end: variant.end };
+        }
+    }
+
+    /**
+     * Applies one more step to a variant. Decoders run on every variant; the
+     * ROT13, reversal and leetspeak transforms are not stacked on each other.
+     */
+    private expand(parent: DecodedVariant): DecodedVariant[] {
+        const children: DecodedVariant[] = [];
+        const decoders: Array<[DecodingStep, (text: string) => DecodedSegment[]]> = [
+            ['base64', text => this.decodeBase64(text)],
+            ['hex', text => this.decodeHex(text)],
+            ['url', text => this.decodeUrl(text)],
+            ['html_entities', text => this.decodeHtmlEntities(text)]
+        ];
+
+        for (const [step, decoder] of decoders) {
+            for (const segment of decoder(parent.text)) {
+                const range = this.locate(parent, { start: segment.start, end: segment.end });
+                children.push({
+                    text: segment.text,
+                    chain: [...parent.chain, step],
+                    start: range.start,
+                    end: range.end,
+                    alignment: 'opaque'
+                });
+            }
+        }
+
+        const lastStep = parent.chain[parent.chain.length - 1];
+        if (lastStep === 'rot13' || lastStep === 'reversed' || lastStep === 'leetspeak') {
+            return children;
+        }
+
+        const rot13 = this.rot13(parent.text);
+        if (rot13 !== parent.text) {
+            children.push({ ...parent, text: rot13, chain: [...parent.chain, 'rot13'] });
+        }
+
+        if (parent.text.length > 1) {
+            children.push({
+                ...parent,
+                text: [...parent.text].reverse().join(''),
+                chain: [...parent.chain, 'reversed'],
+                alignment: parent.alignment === 'aligned' ? 'reversed' : parent.alignment === 'reversed' ? 'aligned' : 'opaque'
+            });
+        }
+
+        if (LEETSPEAK_WORD.test(parent.text)) {
+            const leetspeak = parent.text.replace(/[013457@$|]/g, character => LEETSPEAK[character]);
+            children.push({ ...parent, text: leetspeak, chain: [...parent.chain, 'leetspeak'] });
+        }
+
+        return children;
+    }
+
+    /**
+     * Decodes base64 (standard and URL-safe) segments.
+     */
+    private decodeBase64(text: string): DecodedSegment[] {
+        return this.decodeSegments(text, BASE64_SEGMENT, segment => {
+            const normalized = segment.replace(/-/g, '+').replace(/_/g, '/');
+            return Buffer.from(normalized, 'base64').toString('utf8');
+        });
+    }
+
+    /**
+     * Decodes hex segments, plain, separated or written as \x escapes.
+     */
+    private decodeHex(text: string): DecodedSegment[] {
+        return this.decodeSegments(text, HEX_SEGMENT, segment => {
+            const digits = segment.replace(/\\x|[ :]/g, '');
+            return digits.length % 2 === 0 ? Buffer.from(digits, 'hex').toString('utf8') : undefined;
+        });
+    }
+
+    /**
+     * Decodes URL-encoded segments with several percent escapes.
+     */
+    private decodeUrl(text: string): DecodedSegment[] {
+        return this.decodeSegments(text, URL_ENCODED_SEGMENT, segment => {
+            if ((segment.match(/%[0-9A-Fa-f]{2}/g) ?? []).length < MIN_ESCAPES) {
+                return undefined;
+            }
+            try {
+                return decodeURIComponent(segment.replace(/\+/g, ' '));
+            } catch {
+                return undefined;
+            }
+        });
+    }
+
+    /**
+     * Decodes segments with several HTML character references.
+     */
+    private decodeHtmlEntities(text: string): DecodedSegment[] {
+        return this.decodeSegments(text, HTML_ENTITY_SEGMENT, segment => {
+            const entities = /&(?:#([0-9]{1,7})|#[xX]([0-9A-Fa-f]{1,6})|([a-zA-Z]{2,6}));/g;
+            if ((segment.match(entities) ?? []).length < MIN_ESCAPES) {
+                return undefined;
+            }
+            return segment.replace(entities, (entity, decimal, hex, name) => {
+                const codePoint = decimal ? parseInt(decimal, 10) : hex ? parseInt(hex, 16) : undefined;
+                if (codePoint !== undefined) {
+                    return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity;
+                }
+                return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+            });
+        });
+    }
+
+    /**
+     * Decodes the candidate segments of a text, keeping those that decode to
+     * readable text different from the segment.
+     */
+    private decodeSegments(
+        text: string,
+        candidate: RegExp,
+        decoder: (segment: string) => string | undefined
+    ): DecodedSegment[] {
+        const segments: DecodedSegment[] = [];
+
+        for (const match of text.matchAll(candidate)) {
+            const decoded = decoder(match[0]);
+            if (decoded !== undefined && decoded !== match[0] && this.isReadable(decoded)) {
+                const start = match.index ?? 0;
+                segments.push({ text: decoded, start, end: start + match[0].length });
+            }
+        }
+
+        return segments;
+    }
+
+    /**
+     * Checks if decoded text looks like text rather than binary data.
+     */
+    private isReadable(text: string): boolean {
+        if (text.length < 4 || !/\p{L}/u.test(text)) {
+            return false;
+        }
+        const readable = text.match(/[\p{L}\p{N}\p{P}\p{S}\s]/gu)?.length ?? 0;
+        return !text.includes('\uFFFD') && readable / [...text].length >= 0.9;
+    }
+
+    /**
+     * Rotates Latin letters by 13 places.
+     */
+    private rot13(text: string): string {
+        return text.replace(/[A-Za-z]/g, character => {
+            const base = character <= 'Z' ? 65 : 97;
+            return String.fromCharCode((character.charCodeAt(0) - base + 13) % 26 + base);
+        });
+    }
+}
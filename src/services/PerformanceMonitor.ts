@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { PromptPriority } from '../types';
 
 /**
  * Performance metrics for a single operation
@@ -43,6 +44,15 @@ export interface MemoryUsage {
     percentUsed: number;
 }
 
+/**
+ * Queue wait time statistics of a single priority class
+ */
+export interface PriorityQueueStats {
+    processed: number;
+    averageWaitTime: number;
+    maxWaitTime: number;
+}
+
 /**
  * Queue statistics for monitoring
  */
@@ -52,6 +62,8 @@ export interface QueueStats {
     totalProcessed: number;
     averageWaitTime: number;
     droppedRequests: number;
+    coalescedRequests: number;
+    byPriority: Record<PromptPriority, PriorityQueueStats>;
 }
 
 /**
@@ -95,13 +107,7 @@ export class PerformanceMonitor implements vscode.Disposable {
             enableDetailedLogging: config?.enableDetailedLogging ?? false
         };
 
-        this.queueStats = {
-            currentSize: 0,
-            peakSize: 0,
-            totalProcessed: 0,
-            averageWaitTime: 0,
-            droppedRequests: 0
-        };
+        this.queueStats = this.createEmptyQueueStats();
 
         this.startTime = Date.now();
         this.lastActivityTime = Date.now();
@@ -266,16 +272,25 @@ export class PerformanceMonitor implements vscode.Disposable {
 
     /**
      * Records a processed queue item.
+     * Requirements: 6.4 - Efficient queue management
      * 
      * @param waitTime Time the item waited in queue (ms)
+     * @param priority Priority class the item was queued with
      */
-    public recordQueueProcessed(waitTime: number): void {
+    public recordQueueProcessed(waitTime: number, priority: PromptPriority = 'interactive'): void {
         this.queueStats.totalProcessed++;
         
         // Update rolling average wait time
         const alpha = 0.1; // Smoothing factor
         this.queueStats.averageWaitTime = 
             alpha * waitTime + (1 - alpha) * this.queueStats.averageWaitTime;
+
+        const priorityStats = this.queueStats.byPriority[priority];
+        priorityStats.processed++;
+        priorityStats.averageWaitTime = priorityStats.processed === 1
+            ? waitTime
+            : alpha * waitTime + (1 - alpha) * priorityStats.averageWaitTime;
+        priorityStats.maxWaitTime = Math.max(priorityStats.maxWaitTime, waitTime);
     }
 
     /**
@@ -287,6 +302,18 @@ export class PerformanceMonitor implements vscode.Disposable {
     }
 
 
+    /**
+     * Records a request that was attached to an identical pending analysis
+     * instead of being queued on its own.
+     */
+    public recordCoalescedRequest(): void {
+        this.queueStats.coalescedRequests++;
+        
+        if (this.config.enableDetailedLogging) {
+            this.log(`Duplicate request coalesced. Total coalesced: ${this.queueStats.coalescedRequests}`);
+        }
+    }
+
     /**
      * Gets current memory usage statistics.
      * 
@@ -354,7 +381,14 @@ export class PerformanceMonitor implements vscode.Disposable {
      * @returns Queue statistics
      */
     public getQueueStats(): QueueStats {
-        return { ...this.queueStats };
+        return {
+            ...this.queueStats,
+            byPriority: {
+                interactive: { ...this.queueStats.byPriority.interactive },
+                command: { ...this.queueStats.byPriority.command },
+                batch: { ...this.queueStats.byPriority.batch }
+            }
+        };
     }
 
     /**
@@ -437,6 +471,27 @@ export class PerformanceMonitor implements vscode.Disposable {
         }
     }
 
+    /**
+     * Creates empty queue statistics.
+     */
+    private createEmptyQueueStats(): QueueStats {
+        const emptyPriorityStats = (): PriorityQueueStats => ({ processed: 0, averageWaitTime: 0, maxWaitTime: 0 });
+
+        return {
+            currentSize: 0,
+            peakSize: 0,
+            totalProcessed: 0,
+            averageWaitTime: 0,
+            droppedRequests: 0,
+            coalescedRequests: 0,
+            byPriority: {
+                interactive: emptyPriorityStats(),
+                command: emptyPriorityStats(),
+                batch: emptyPriorityStats()
+            }
+        };
+    }
+
     /**
      * Generates a unique operation ID.
      */
@@ -480,13 +535,7 @@ export class PerformanceMonitor implements vscode.Disposable {
     public reset(): void {
         this.metrics = [];
         this.activeOperations.clear();
-        this.queueStats = {
-            currentSize: 0,
-            peakSize: 0,
-            totalProcessed: 0,
-            averageWaitTime: 0,
-            droppedRequests: 0
-        };
+        this.queueStats = this.createEmptyQueueStats();
         this.startTime = Date.now();
         this.operationCounter = 0;
         
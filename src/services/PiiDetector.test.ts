@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { configuration } from '../__mocks__/vscode';
+import { DEFAULT_PII_ACTIONS, PiiDetector } from './PiiDetector';
+import { PiiCountry } from '../types';
+
+/**
+ * Gets the type and text of each piece of personal data found.
+ */
+function piiIn(detector: PiiDetector, content: string) {
+    return detector.detect(content).map(finding => [finding.type, content.substring(finding.start, finding.end)]);
+}
+
+describe('PiiDetector', () => {
+    afterEach(() => configuration.clear());
+
+    it('finds emails, phone numbers, cards and IBANs', () => {
+        const detector = new PiiDetector({ countries: [] });
+        const content = 'Mail jane.doe@acme.io or call +1 415 555 0132 / (415) 555-0132. Card 4111 1111 1111 1111, IBAN GB82 WEST 1234 5698 7654 32.';
+
+        expect(piiIn(detector, content)).toEqual([
+            ['email', 'jane.doe@acme.io'],
+            ['phone', '+1 415 555 0132'],
+            ['phone', '(415) 555-0132'],
+            ['credit_card', '4111 1111 1111 1111'],
+            ['iban', 'GB82 WEST 1234 5698 7654 32']
+        ]);
+    });
+
+    it('rejects numbers whose check digits are wrong', () => {
+        const detector = new PiiDetector({ countries: ['ca', 'fr', 'es', 'nl'] });
+
+        expect(detector.detect('Card 4111 1111 1111 1112, IBAN GB83 WEST 1234 5698 7654 32')).toEqual([]);
+        expect(detector.detect('SIN 130-692-545, NIR 1 84 12 76 451 089 47, DNI 12345678A, BSN 111222334')).toEqual([]);
+    });
+
+    it('skips SSH remotes and reserved example domains', () => {
+        expect(new PiiDetector().detect('git@github.com:acme/app.git and admin@example.com')).toEqual([]);
+    });
+
+    it.each<[PiiCountry, string]>([
+        ['us', '123-45-6789'],
+        ['uk', 'AB 12 34 56 C'],
+        ['ca', '130-692-544'],
+        ['fr', '1 84 12 76 451 089 46'],
+        ['es', '12345678Z'],
+        ['it', 'RSSMRA85T10A562S'],
+        ['nl', '111222333']
+    ])('finds %s national IDs only when the country is enabled', (country, id) => {
+        const content = `My ID is BSN ${id}.`;
+
+        expect(piiIn(new PiiDetector({ countries: [country] }), content)).toEqual([['national_id', id]]);
+        expect(piiIn(new PiiDetector({ countries: [] }), content).map(([type]) => type)).not.toContain('national_id');
+    });
+
+    it('attaches the configured action and skips allowed kinds', () => {
+        const detector = new PiiDetector({ actions: { ...DEFAULT_PII_ACTIONS, email: 'allow', phone: 'block' } });
+
+        expect(detector.detect('jane@acme.io, +44 20 7946 0958')).toEqual([{ type: 'phone', action: 'block', start: 14, end: 30 }]);
+        expect(detector.getConfig().actions.iban).toBe('redact');
+    });
+
+    it('redacts only the data whose action is redact', () => {
+        const detector = new PiiDetector({ countries: ['us'] });
+        detector.updateConfig({ actions: { ...detector.getConfig().actions, phone: 'warn' } });
+
+        const result = detector.redact('SSN 123-45-6789, phone +1 415 555 0132');
+
+        expect(result.text).toBe('SSN [REDACTED:national_id], phone +1 415 555 0132');
+        expect(result.findings.map(finding => finding.type)).toEqual(['national_id']);
+    });
+
+    it('reads actions and countries from the settings', () => {
+        configuration.set('piiActions', { email: 'warn' });
+        configuration.set('piiCountries', ['uk']);
+        const config = new PiiDetector().getConfig();
+
+        expect(config.actions.email).toBe('warn');
+        expect(config.countries).toEqual(['uk']);
+    });
+});
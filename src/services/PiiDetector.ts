@@ -0,0 +1,307 @@
+import * as vscode from 'vscode';
+import { PiiAction, PiiCountry, PiiFinding, PiiType } from '../types';
+
+/**
+ * Configuration for the PII detector
+ */
+export interface PiiDetectorConfig {
+    actions: Record<PiiType, PiiAction>;
+    countries: PiiCountry[];
+}
+
+/**
+ * Outbound text with its personal data replaced by placeholders
+ */
+export interface PiiRedactionResult {
+    text: string;
+    findings: PiiFinding[];
+}
+
+/**
+ * Default action for each kind of personal data
+ */
+export const DEFAULT_PII_ACTIONS: Record<PiiType, PiiAction> = {
+    email: 'redact',
+    phone: 'redact',
+    national_id: 'redact',
+    iban: 'redact',
+    credit_card: 'redact'
+};
+
+/**
+ * Pattern for personal data, with an optional check of the matched text
+ * such as a checksum
+ */
+interface PiiPatternDefinition {
+    regex: RegExp;
+    validate?: (value: string) => boolean;
+}
+
+/**
+ * National ID numbers by country. Numbers with a check digit are validated;
+ * formats without one require separators or a label so that ordinary numbers
+ * are not mistaken for IDs.
+ */
+const NATIONAL_ID_PATTERNS: Record<PiiCountry, PiiPatternDefinition[]> = {
+    // United States: Social Security number
+    us: [
+        { regex: /\b(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}\b/g }
+    ],
+    // United Kingdom: National Insurance number
+    uk: [
+        { regex: /\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g }
+    ],
+    // Canada: Social Insurance Number
+    ca: [
+        { regex: /\b[1-9]\d{2}([- ])\d{3}\1\d{3}\b/g, validate: value => passesLuhn(digitsOf(value)) }
+    ],
+    // France: social security number (NIR)
+    fr: [
+        { regex: /\b[12] ?\d{2} ?(?:0[1-9]|1[0-2]|[2-9]\d) ?(?:\d{2}|2[AB]) ?\d{3} ?\d{3} ?\d{2}\b/g, validate: isValidNir }
+    ],
+    // Spain: DNI and NIE
+    es: [
+        { regex: /\b[XYZ]?-?\d{7,8}-?[A-Z]\b/g, validate: isValidDni }
+    ],
+    // Italy: codice fiscale
+    it: [
+        { regex: /\b[A-Z]{6}\d{2}[A-EHLMPR-T]\d{2}[A-Z]\d{3}[A-Z]\b/g }
+    ],
+    // Netherlands: citizen service number (BSN), which has no fixed format
+    nl: [
+        { regex: /(?<=\bBSN(?:[- ]?(?:nummer|number))?\s*[:#]?\s*)\d{9}\b/gi, validate: isValidBsn }
+    ]
+};
+
+/**
+ * Countries whose national ID numbers can be detected
+ */
+export const PII_COUNTRIES: PiiCountry[] = Object.keys(NATIONAL_ID_PATTERNS) as PiiCountry[];
+
+/**
+ * Patterns for the other kinds of personal data. National IDs come first,
+ * and a range matched by an earlier kind is not matched again by a later one.
+ */
+const PII_PATTERNS: Array<[Exclude<PiiType, 'national_id'>, PiiPatternDefinition]> = [
+    [
+        'credit_card',
+        {
+            regex: /\b(?:\d[ -]?){12,18}\d\b/g,
+            validate: value => {
+                const digits = digitsOf(value);
+                return /^(?:4|5[1-5]|2[2-7]|3[47]|3[068]|35|6(?:011|5))/.test(digits) && passesLuhn(digits);
+            }
+        }
+    ],
+    [
+        'iban',
+        {
+            regex: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+            validate: isValidIban
+        }
+    ],
+    [
+        'email',
+        {
+            regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+            // SSH remotes and reserved example domains (RFC 2606) are not personal data
+            validate: value =>
+                !/^git@/i.test(value) &&
+                !/@(?:[\w-]+\.)*(?:example\.(?:com|org|net)|example|test|invalid|localhost)$/i.test(value)
+        }
+    ],
+    [
+        'phone',
+        {
+            regex: /(?:\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]?\d{2,4}){1,4}|\(\d{3}\) ?\d{3}[ .-]\d{4}|\b[2-9]\d{2}([ .-])\d{3}\1\d{4})\b/g,
+            validate: value => {
+                const count = digitsOf(value).length;
+                return count >= 10 && count <= 15;
+            }
+        }
+    ]
+];
+
+/**
+ * Digits of a number written with separators
+ */
+function digitsOf(value: string): string {
+    return value.replace(/\D/g, '');
+}
+
+/**
+ * Checks a number against the Luhn checksum used by payment cards and Canadian SINs
+ */
+function passesLuhn(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+/**
+ * Computes the remainder of a long decimal number divided by 97
+ */
+function mod97(digits: string): number {
+    let remainder = 0;
+    for (const digit of digits) {
+        remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+    return remainder;
+}
+
+/**
+ * Checks the length and check digits of an IBAN (ISO 13616)
+ */
+function isValidIban(value: string): boolean {
+    const iban = value.replace(/ /g, '');
+    if (iban.length < 15 || iban.length > 34) {
+        return false;
+    }
+    const rearranged = iban.substring(4) + iban.substring(0, 4);
+    const digits = rearranged.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+    return mod97(digits) === 1;
+}
+
+/**
+ * Checks the key of a French NIR, the last two digits. Corsican departments
+ * 2A and 2B count as 19 and 18.
+ */
+function isValidNir(value: string): boolean {
+    const nir = value.replace(/ /g, '').replace(/2A/, '19').replace(/2B/, '18');
+    return 97 - mod97(nir.substring(0, 13)) === Number(nir.substring(13));
+}
+
+/**
+ * Checks the control letter of a Spanish DNI or NIE
+ */
+function isValidDni(value: string): boolean {
+    const dni = value.replace(/-/g, '');
+    const number = dni.substring(0, dni.length - 1).replace(/^[XYZ]/, prefix => String('XYZ'.indexOf(prefix)));
+    if (number.length !== 8) {
+        return false;
+    }
+    return 'TRWAGMYFPDXBNJZSQVHLCKE'[Number(number) % 23] === dni[dni.length - 1];
+}
+
+/**
+ * Checks a Dutch BSN against the eleven test
+ */
+function isValidBsn(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < 8; i++) {
+        sum += Number(digits[i]) * (9 - i);
+    }
+    sum -= Number(digits[8]);
+    return sum % 11 === 0 && sum !== 0;
+}
+
+/**
+ * PiiDetector finds personal data in outbound prompts: email addresses,
+ * phone numbers, national ID numbers, IBANs and payment card numbers.
+ *
+ * Responsibilities:
+ * - Detect each kind of personal data, validating check digits where the
+ *   format has them (Luhn for cards, mod 97 for IBANs, national ID checksums)
+ * - Detect national ID numbers only for the configured countries
+ * - Attach the configured action to each finding and skip allowed kinds
+ * - Replace data whose action is redact with `[REDACTED:<type>]` placeholders
+ */
+export class PiiDetector {
+    private config: PiiDetectorConfig;
+
+    constructor(config?: Partial<PiiDetectorConfig>) {
+        const vsConfig = vscode.workspace.getConfiguration('cloak');
+
+        this.config = {
+            actions: {
+                ...DEFAULT_PII_ACTIONS,
+                ...(config?.actions ?? vsConfig.get<Partial<Record<PiiType, PiiAction>>>('piiActions', {}))
+            },
+            countries: config?.countries ?? vsConfig.get<PiiCountry[]>('piiCountries', ['us'])
+        };
+    }
+
+    /**
+     * Finds the personal data in a text whose action is not allow.
+     *
+     * @param content The text to scan
+     * @returns Findings with their action, in order of their position
+     */
+    public detect(content: string): PiiFinding[] {
+        const findings: PiiFinding[] = [];
+        const overlaps = (start: number, end: number) =>
+            findings.some(finding => start < finding.end && end > finding.start);
+
+        const definitions: Array<[PiiType, PiiPatternDefinition]> = [
+            ...this.config.countries.flatMap(country =>
+                (NATIONAL_ID_PATTERNS[country] ?? []).map((definition): [PiiType, PiiPatternDefinition] => ['national_id', definition])
+            ),
+            ...PII_PATTERNS
+        ];
+
+        for (const [type, definition] of definitions) {
+            // Unknown actions fall back to redact
+            const configured = this.config.actions[type];
+            const action: PiiAction = ['allow', 'warn', 'block'].includes(configured) ? configured : 'redact';
+            if (action === 'allow') {
+                continue;
+            }
+
+            for (const match of content.matchAll(definition.regex)) {
+                const start = match.index ?? 0;
+                const end = start + match[0].length;
+                if ((!definition.validate || definition.validate(match[0])) && !overlaps(start, end)) {
+                    findings.push({ type, action, start, end });
+                }
+            }
+        }
+
+        return findings.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Replaces the personal data whose action is redact with `[REDACTED:<type>]` placeholders.
+     *
+     * @param content The text to redact
+     * @returns The redacted text and the personal data that was replaced
+     */
+    public redact(content: string): PiiRedactionResult {
+        const findings = this.detect(content).filter(finding => finding.action === 'redact');
+
+        let text = content;
+        for (const finding of [...findings].reverse()) {
+            text = text.substring(0, finding.start) + `[REDACTED:${finding.type}]` + text.substring(finding.end);
+        }
+
+        return { text, findings };
+    }
+
+    /**
+     * Updates the PII detector configuration.
+     *
+     * @param config Partial configuration to update
+     */
+    public updateConfig(config: Partial<PiiDetectorConfig>): void {
+        this.config = {
+            ...this.config,
+            ...config,
+            actions: { ...DEFAULT_PII_ACTIONS, ...(config.actions ?? this.config.actions) }
+        };
+    }
+
+    /**
+     * Gets the current configuration.
+     */
+    public getConfig(): PiiDetectorConfig {
+        return { actions: { ...this.config.actions }, countries: [...this.config.countries] };
+    }
+}
@@ -0,0 +1,285 @@
+import * as crypto from 'crypto';
+import { InterceptedPrompt, PromptSanitization, SanitizationChange, ThreatPattern } from '../types';
+import { HiddenUnicodeDetector } from './HiddenUnicodeDetector';
+import { SecretScanner } from './SecretScanner';
+import { SecurityService } from './SecurityService';
+
+/**
+ * Span of a text with threat patterns, removed as a whole
+ */
+interface RemovedSpan {
+    start: number;
+    end: number;
+    types: Set<ThreatPattern['type']>;
+}
+
+/**
+ * Line of a diff: unchanged, removed or added
+ */
+interface DiffLine {
+    op: ' ' | '-' | '+';
+    line: string;
+}
+
+/**
+ * Largest number of line pairs compared to find the shortest diff; larger
+ * changes are shown as all lines removed, then all lines added
+ */
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Unchanged lines shown around each change in a diff
+ */
+const DIFF_CONTEXT_LINES = 1;
+
+/**
+ * Invisible characters, shown as escapes in diffs so removed ones can be seen
+ */
+const INVISIBLE_CHARACTERS = /[\p{Cf}\u{FE00}-\u{FE0F}\u{E0100}-\u{E01EF}]/gu;
+
+/**
+ * PromptSanitizer rewrites a prompt so it can be forwarded instead of blocked:
+ * spans with threat patterns are removed, invisible Unicode is stripped and
+ * secrets are redacted.
+ *
+ * A prompt is only sanitized when every finding is located in the prompt or
+ * one of its references, and local detection finds nothing in the result.
+ * Findings spread over earlier turns, or judged by the SLM without a pattern,
+ * cannot be removed, so those prompts keep their original decision.
+ *
+ * Responsibilities:
+ * - Remove located threat patterns from the prompt and its references
+ * - Strip invisible Unicode and redact secrets
+ * - Verify the sanitized prompt with local detection
+ * - Build a diff of the changes and hashes of both versions for the audit log
+ */
+export class PromptSanitizer {
+    private hiddenUnicodeDetector: HiddenUnicodeDetector = new HiddenUnicodeDetector();
+    private secretScanner: SecretScanner = new SecretScanner();
+
+    constructor(private readonly securityService: SecurityService) {}
+
+    /**
+     * Sanitizes a prompt by removing the spans of its detected threat patterns.
+     *
+     * @param prompt The prompt to sanitize
+     * @param patterns Threat patterns detected in the prompt and its references
+     * @returns The sanitized prompt, or undefined if it cannot be sanitized safely
+     */
+    public sanitize(prompt: InterceptedPrompt, patterns: ThreatPattern[]): PromptSanitization | undefined {
+        // Findings without an exact span, such as SLM judgments, cannot be removed
+        if (patterns.length === 0 || patterns.some(p => !p.location || p.turns)) {
+            return undefined;
+        }
+
+        const references = prompt.references ?? [];
+        const referenceLabels = new Set(references.map(reference => reference.label));
+        if (patterns.some(p => p.source !== undefined && !referenceLabels.has(p.source))) {
+            return undefined;
+        }
+
+        const changes: SanitizationChange[] = [];
+        const diffs: string[] = [];
+
+        const content = this.sanitizeText(prompt.content, patterns.filter(p => p.source === undefined), undefined, changes);
+        if (content !== prompt.content) {
+            diffs.push(this.buildDiff('prompt', prompt.content, content));
+        }
+
+        const sanitizedReferences = references.map(reference => {
+            const sanitized = this.sanitizeText(
+                reference.content,
+                patterns.filter(p => p.source === reference.label),
+                reference.label,
+                changes
+            );
+            if (sanitized !== reference.content) {
+                diffs.push(this.buildDiff(reference.label, reference.content, sanitized));
+            }
+            return { ...reference, content: sanitized };
+        });
+
+        const sanitizedPrompt: InterceptedPrompt = {
+            ...prompt,
+            content,
+            ...(prompt.references ? { references: sanitizedReferences } : {})
+        };
+
+        if (this.securityService.detectPromptThreats(sanitizedPrompt).hasThreats ||
+            sanitizedReferences.some(reference => this.securityService.detectThreatPatterns(reference.content).hasThreats)) {
+            return undefined;
+        }
+
+        return {
+            prompt: sanitizedPrompt,
+            changes,
+            diff: diffs.join('\n'),
+            originalHash: this.hashContent(prompt.content),
+            sanitizedHash: this.hashContent(content)
+        };
+    }
+
+    /**
+     * Describes the changes of a sanitization, for decision reasons.
+     *
+     * @param changes Changes made by the sanitizer
+     * @returns A summary such as "removed rule_bypass; redacted aws_access_key"
+     */
+    public describeChanges(changes: SanitizationChange[]): string {
+        const parts: string[] = [];
+        for (const kind of ['removed', 'stripped', 'redacted'] as const) {
+            const types = [...new Set(changes.filter(change => change.kind === kind).map(change => change.type))];
+            if (types.length > 0) {
+                parts.push(`${kind} ${types.join(', ')}`);
+            }
+        }
+        return parts.join('; ');
+    }
+
+    /**
+     * Removes the spans of threat patterns from a text, then strips invisible
+     * Unicode and redacts secrets.
+     */
+    private sanitizeText(
+        content: string,
+        patterns: ThreatPattern[],
+        source: string | undefined,
+        changes: SanitizationChange[]
+    ): string {
+        let text = content;
+        for (const span of this.mergeSpans(patterns).reverse()) {
+            const types = [...span.types].filter(type => type !== 'hidden_unicode');
+            const replacement = types.length > 0 ? `[REMOVED:${types.join(',')}]` : '';
+            text = text.substring(0, span.start) + replacement + text.substring(span.end);
+
+            for (const type of span.types) {
+                changes.push({ kind: type === 'hidden_unicode' ? 'stripped' : 'removed', type, source });
+            }
+        }
+
+        for (const finding of this.hiddenUnicodeDetector.detect(text).reverse()) {
+            text = text.substring(0, finding.start) + text.substring(finding.end);
+            changes.push({ kind: 'stripped', type: 'hidden_unicode', source });
+        }
+
+        const redaction = this.secretScanner.redact(text);
+        for (const finding of redaction.findings) {
+            changes.push({ kind: 'redacted', type: finding.type, source });
+        }
+
+        return redaction.text;
+    }
+
+    /**
+     * Merges the locations of patterns into non-overlapping spans, in order.
+     */
+    private mergeSpans(patterns: ThreatPattern[]): RemovedSpan[] {
+        const spans: RemovedSpan[] = [];
+        const sorted = patterns
+            .filter(p => p.location)
+            .sort((a, b) => (a.location?.start ?? 0) - (b.location?.start ?? 0));
+
+        for (const pattern of sorted) {
+            const { start, end } = pattern.location ?? { start: 0, end: 0 };
+            const last = spans[spans.length - 1];
+            if (last && start <= last.end) {
+                last.end = Math.max(last.end, end);
+                last.types.add(pattern.type);
+            } else {
+                spans.push({ start, end, types: new Set([pattern.type]) });
+            }
+        }
+
+        return spans;
+    }
+
+    /**
+     * Builds a line diff of a text and its sanitized form, with a line of
+     * context around each change and invisible characters escaped.
+     */
+    private buildDiff(label: string, original: string, sanitized: string): string {
+        const before = original.split('\n');
+        const after = sanitized.split('\n');
+
+        let prefix = 0;
+        while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+            prefix++;
+        }
+        let suffix = 0;
+        while (suffix < before.length - prefix && suffix < after.length - prefix &&
+            before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+            suffix++;
+        }
+
+        const lines: DiffLine[] = [
+            ...before.slice(0, prefix).map((line): DiffLine => ({ op: ' ', line })),
+            ...this.diffLines(before.slice(prefix, before.length - suffix), after.slice(prefix, after.length - suffix)),
+            ...before.slice(before.length - suffix).map((line): DiffLine => ({ op: ' ', line }))
+        ];
+
+        const output = [`--- ${label}`, `+++ ${label} (sanitized)`];
+        const isShown = (index: number) => lines
+            .slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1)
+            .some(line => line.op !== ' ');
+
+        let skipped = false;
+        lines.forEach((line, index) => {
+            if (!isShown(index)) {
+                skipped = true;
+                return;
+            }
+            if (skipped) {
+                output.push('@@');
+                skipped = false;
+            }
+            output.push(line.op + line.line.replace(INVISIBLE_CHARACTERS, char =>
+                `\\u{${(char.codePointAt(0) ?? 0).toString(16).toUpperCase()}}`));
+        });
+
+        return output.join('\n');
+    }
+
+    /**
+     * Diffs two lists of lines by their longest common subsequence.
+     */
+    private diffLines(before: string[], after: string[]): DiffLine[] {
+        if (before.length * after.length > MAX_DIFF_CELLS) {
+            return [
+                ...before.map((line): DiffLine => ({ op: '-', line })),
+                ...after.map((line): DiffLine => ({ op: '+', line }))
+            ];
+        }
+
+        // lengths[i][j] is the LCS length of before[i..] and after[j..]
+        const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+        for (let i = before.length - 1; i >= 0; i--) {
+            for (let j = after.length - 1; j >= 0; j--) {
+                lengths[i][j] = before[i] === after[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+
+        const lines: DiffLine[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < before.length || j < after.length) {
+            if (i < before.length && j < after.length && before[i] === after[j]) {
+                lines.push({ op: ' ', line: before[i++] });
+                j++;
+            } else if (j >= after.length || (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+                lines.push({ op: '-', line: before[i++] });
+            } else {
+                lines.push({ op: '+', line: after[j++] });
+            }
+        }
+        return lines;
+    }
+
+    /**
+     * Computes the SHA-256 hash of a text.
+     */
+    private hashContent(content: string): string {
+        return crypto.createHash('sha256').update(content).digest('hex');
+    }
+}
@@ -0,0 +1,333 @@
+import * as vscode from 'vscode';
+import { ResponseFinding } from '../types';
+import { SecurityService } from './SecurityService';
+import { PRIVATE_KEY_END, SecretScanner } from './SecretScanner';
+import { ExfiltrationDetector } from './ExfiltrationDetector';
+
+/**
+ * Configuration for the response filter
+ */
+export interface ResponseFilterConfig {
+    enabled: boolean;
+    maxBufferLength: number;
+    exfiltrationAllowedDomains: string[];
+    exfiltrationBlockedDomains: string[];
+}
+
+/**
+ * Pattern definition for a category of response findings
+ */
+interface ResponsePatternDefinition {
+    type: ResponseFinding['type'];
+    action: ResponseFinding['action'];
+    patterns: Array<{ regex: RegExp; label: string }>;
+    severity: ResponseFinding['severity'];
+    description: string;
+}
+
+/**
+ * Leaked secrets
+ * Credentials that should never appear in model output, found by the SecretScanner
+ */
+const SECRET_LEAK_FINDING: Omit<ResponsePatternDefinition, 'patterns'> = {
+    type: 'secret_leak',
+    action: 'redact',
+    severity: 'high',
+    description: 'Model output contains what looks like a credential'
+};
+
+/**
+ * System prompt disclosure patterns
+ * Model output that reveals its hidden instructions
+ */
+const SYSTEM_PROMPT_DISCLOSURE_PATTERNS: ResponsePatternDefinition = {
+    type: 'system_prompt_disclosure',
+    action: 'hold',
+    patterns: [
+        { regex: /\b(my|the)\s+system\s+prompt\s+(is|says|reads|was)\b/i, label: 'system prompt disclosure' },
+        { regex: /\bhere\s+(is|are)\s+my\s+(system\s+prompt|(initial|original|hidden)\s+instructions)/i, label: 'instruction disclosure' },
+        { regex: /\bmy\s+(hidden|secret|confidential)\s+instructions\s+(are|say)\b/i, label: 'instruction disclosure' },
+    ],
+    severity: 'high',
+    description: 'Model output discloses its system prompt or hidden instructions'
+};
+
+/**
+ * Dangerous shell command patterns, reusing the command injection family
+ */
+const DANGEROUS_COMMAND_RESPONSE_PATTERNS: ResponsePatternDefinition = {
+    type: 'dangerous_command',
+    action: 'annotate',
+    patterns: SecurityService.getDangerousCommandPatterns().map(regex => ({ regex, label: 'dangerous command' })),
+    severity: 'medium',
+    description: 'Model output suggests a dangerous shell command'
+};
+
+/**
+ * Data exfiltration links
+ * URLs found by the ExfiltrationDetector, which applies the allowed and blocked domain lists
+ */
+const EXFILTRATION_LINK_FINDING: Omit<ResponsePatternDefinition, 'patterns'> = {
+    type: 'exfiltration_link',
+    action: 'redact',
+    severity: 'high',
+    description: 'Model output contains a link that could exfiltrate data'
+};
+
+/**
+ * All response pattern definitions, in the order they are applied to a line
+ */
+const ALL_RESPONSE_PATTERNS: ResponsePatternDefinition[] = [
+    SYSTEM_PROMPT_DISCLOSURE_PATTERNS,
+    DANGEROUS_COMMAND_RESPONSE_PATTERNS,
+];
+
+/**
+ * ResponseFilter checks model output before it is written to the chat response.
+ *
+ * Responsibilities:
+ * - Detect leaked secrets, system prompt disclosure, dangerous shell commands
+ *   and data exfiltration links in streamed model output
+ * - Hold back, redact or annotate offending fragments
+ */
+export class ResponseFilter {
+    private config: ResponseFilterConfig;
+    private secretScanner = new SecretScanner();
+    private exfiltrationDetector: ExfiltrationDetector;
+
+    constructor(config?: Partial<ResponseFilterConfig>) {
+        const vsConfig = vscode.workspace.getConfiguration('cloak');
+
+        this.config = {
+            enabled: config?.enabled ?? vsConfig.get<boolean>('enableResponseFilter', true),
+            maxBufferLength: config?.maxBufferLength ?? 2000,
+            exfiltrationAllowedDomains: config?.exfiltrationAllowedDomains ?? vsConfig.get<string[]>('exfiltrationAllowedDomains', []),
+            exfiltrationBlockedDomains: config?.exfiltrationBlockedDomains ?? vsConfig.get<string[]>('exfiltrationBlockedDomains', [])
+        };
+        this.exfiltrationDetector = new ExfiltrationDetector({
+            allowed: this.config.exfiltrationAllowedDomains,
+            blocked: this.config.exfiltrationBlockedDomains
+        });
+    }
+
+    /**
+     * Starts filtering a new streamed response.
+     *
+     * @returns A session that filters the fragments of one response
+     */
+    public createSession(): ResponseFilterSession {
+        return new ResponseFilterSession(this.config.maxBufferLength, this.secretScanner, this.exfiltrationDetector);
+    }
+
+    /**
+     * Checks if response filtering is enabled.
+     */
+    public isEnabled(): boolean {
+        return this.config.enabled;
+    }
+
+    /**
+     * Updates the response filter configuration.
+     *
+     * @param config Partial configuration to update
+     */
+    public updateConfig(config: Partial<ResponseFilterConfig>): void {
+        this.config = { ...this.config, ...config };
+        this.exfiltrationDetector.setDomainLists({
+            allowed: this.config.exfiltrationAllowedDomains,
+            blocked: this.config.exfiltrationBlockedDomains
+        });
+    }
+
+    /**
+     * Gets the current configuration.
+     */
+    public getConfig(): ResponseFilterConfig {
+        return { ...this.config };
+    }
+}
+
+/**
+ * Filters the fragments of a single streamed response.
+ * Output is buffered line by line so patterns split across fragments are still
+ * detected; annotations inside code blocks are deferred until the block closes.
+ * A private key is redacted from its BEGIN line through its END line, since
+ * its body spans several lines.
+ */
+export class ResponseFilterSession {
+    private buffer: string = '';
+    private inCodeBlock: boolean = false;
+    private pendingAnnotations: string[] = [];
+    private inPrivateKey: boolean = false;
+    private findings: ResponseFinding[] = [];
+
+    constructor(
+        private readonly maxBufferLength: number,
+        private readonly secretScanner: SecretScanner,
+        private readonly exfiltrationDetector: ExfiltrationDetector
+    ) {}
+
+    /**
+     * Adds a streamed fragment.
+     *
+     * @param fragment The fragment received from the model
+     * @returns Filtered text that is safe to write to the response
+     */
+    public push(fragment: string): string {
+        this.buffer += fragment;
+
+        const lastNewline = this.buffer.lastIndexOf('\n');
+        if (lastNewline === -1) {
+            // Avoid holding back very long lines indefinitely
+            if (this.buffer.length < this.maxBufferLength) {
+                return '';
+            }
+            const line = this.buffer;
+            this.buffer = '';
+            return this.processLine(line);
+        }
+
+        const complete = this.buffer.slice(0, lastNewline + 1);
+        this.buffer = this.buffer.slice(lastNewline + 1);
+
+        return complete
+            .split(/(?<=\n)/)
+            .map(line => this.processLine(line))
+            .join('');
+    }
+
+    /**
+     * Flushes buffered output at the end of the response.
+     *
+     * @returns Remaining filtered text, including deferred annotations
+     */
+    public flush(): string {
+        let output = this.buffer ? this.processLine(this.buffer) : '';
+        this.buffer = '';
+
+        if (this.pendingAnnotations.length > 0) {
+            output += `\n\n${this.pendingAnnotations.join('\n')}\n`;
+            this.pendingAnnotations = [];
+        }
+
+        return output;
+    }
+
+    /**
+     * Gets the findings detected so far.
+     */
+    public getFindings(): ResponseFinding[] {
+        return [...this.findings];
+    }
+
+    /**
+     * Applies all response patterns to a single line.
+     */
+    private processLine(line: string): string {
+        if (this.inPrivateKey) {
+            const end = line.match(PRIVATE_KEY_END);
+            if (!end) {
+                return '';
+            }
+            this.inPrivateKey = false;
+            line = line.slice((end.index ?? 0) + end[0].length);
+            if (line.trim() === '') {
+                return '';
+            }
+        }
+
+        const isFence = /^\s*(```|~~~)/.test(line);
+        let output = this.redactLinks(this.redactSecrets(line));
+        const annotations: string[] = [];
+
+        for (const definition of ALL_RESPONSE_PATTERNS) {
+            for (const { regex, label } of definition.patterns) {
+                const match = output.match(regex);
+                if (!match) {
+                    continue;
+                }
+
+                if (definition.action === 'hold') {
+                    this.recordFinding(definition, label);
+                    const placeholder = '[Cloak withheld content that appears to disclose hidden instructions]';
+                    return (this.inCodeBlock ? placeholder : `_${placeholder}_`) + (line.endsWith('\n') ? '\n' : '');
+                }
+
+                if (definition.action === 'redact') {
+                    const globalRegex = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`);
+                    output = output.replace(globalRegex, `[REDACTED:${definition.type}]`);
+                    this.recordFinding(definition, label);
+                    continue;
+                }
+
+                this.recordFinding(definition, match[0].trim());
+                annotations.push(`> ⚠️ **Cloak:** ${definition.description} (\`${match[0].trim()}\`). Review it carefully before running.`);
+                break;
+            }
+        }
+
+        if (isFence) {
+            this.inCodeBlock = !this.inCodeBlock;
+        }
+
+        if (annotations.length > 0) {
+            if (this.inCodeBlock) {
+                this.pendingAnnotations.push(...annotations);
+            } else {
+                output += `\n${annotations.join('\n')}\n\n`;
+            }
+        } else if (isFence && !this.inCodeBlock && this.pendingAnnotations.length > 0) {
+            // Code block just closed: emit annotations deferred while inside it
+            output += `\n${this.pendingAnnotations.join('\n')}\n\n`;
+            this.pendingAnnotations = [];
+        }
+
+        return output;
+    }
+
+    /**
+     * Replaces the secrets in a line with `[REDACTED:secret_leak]`. A private key
+     * without its END line on the same line starts a block that is redacted
+     * until the END line arrives.
+     */
+    private redactSecrets(line: string): string {
+        let output = line;
+        for (const finding of this.secretScanner.scan(line).reverse()) {
+            let end = finding.end;
+            if (finding.type === 'private_key' && !PRIVATE_KEY_END.test(line.substring(finding.start, finding.end))) {
+                this.inPrivateKey = true;
+                end = line.replace(/\r?\n$/, '').length;
+            }
+            output = output.substring(0, finding.start) + `[REDACTED:${SECRET_LEAK_FINDING.type}]` + output.substring(end);
+            this.recordFinding(SECRET_LEAK_FINDING, finding.type);
+        }
+        return output;
+    }
+
+    /**
+     * Replaces links that could exfiltrate data with `[REDACTED:exfiltration_link]`.
+     * Allowlisted domains are left alone and blocklisted domains are always replaced.
+     */
+    private redactLinks(line: string): string {
+        let output = line;
+        for (const link of this.exfiltrationDetector.detectLinks(line).reverse()) {
+            const { start, end } = link.location ?? { start: 0, end: 0 };
+            output = output.substring(0, start) + `[REDACTED:${EXFILTRATION_LINK_FINDING.type}]` + output.substring(end);
+            this.recordFinding(EXFILTRATION_LINK_FINDING, link.description);
+        }
+        return output;
+    }
+
+    /**
+     * Records a finding without keeping the matched value for redacted content.
+     */
+    private recordFinding(definition: Omit<ResponsePatternDefinition, 'patterns'>, pattern: string): void {
+        this.findings.push({
+            type: definition.type,
+            action: definition.action,
+            pattern,
+            severity: definition.severity,
+            description: definition.description
+        });
+    }
+}
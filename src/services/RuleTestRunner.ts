@@ -0,0 +1,233 @@
+import {
+    RuleTestCorpusError,
+    RuleTestMatch,
+    RuleTestReport,
+    RuleTestResult,
+    RuleTestSample,
+    SignaturePackVersion,
+    ThreatPattern
+} from '../types';
+import { parseRulesDocument } from './CustomRuleLoader';
+import { SecurityService, ThreatPatternDefinition } from './SecurityService';
+
+/**
+ * Single regex of an active rule, named so test results can refer to it
+ */
+interface ActiveRule {
+    name: string;
+    type: ThreatPattern['type'];
+    regex: RegExp;
+    signaturePack?: SignaturePackVersion;
+}
+
+/**
+ * Fields of a sample
+ */
+const SAMPLE_FIELDS = ['text', 'expect', 'name', 'rules'];
+
+/**
+ * Expected outcomes of a sample
+ */
+const EXPECTATIONS = ['match', 'no_match'];
+
+/**
+ * Line that holds the text of a sample, in YAML or pretty-printed JSON
+ */
+const SAMPLE_TEXT_LINE = /^\s*(?:-\s*)?["']?text["']?\s*:/;
+
+/**
+ * Stands for "any rule" in the missed rules of a sample that should match
+ * without naming rules
+ */
+export const ANY_RULE = '*';
+
+/**
+ * Parses a rule test corpus: a list of samples, either at the top level or
+ * under `samples`. Each sample has a `text` and an `expect` of `match` or
+ * `no_match`, and optionally a `name` and the `rules` (rule ids or categories)
+ * the expectation is about.
+ *
+ * @param content Content of the corpus file
+ * @param file Path of the file; a `.json` extension selects the JSON parser, anything else YAML
+ * @param knownRules Rule names and categories samples may refer to; not checked if omitted
+ * @returns The valid samples and the problems of the others
+ */
+export function parseRuleTestCorpus(
+    content: string,
+    file: string,
+    knownRules?: Set<string>
+): { samples: RuleTestSample[]; errors: RuleTestCorpusError[] } {
+    const parsed = parseRulesDocument(content, file);
+    if (parsed.error) {
+        return { samples: [], errors: [{ message: parsed.error.message, line: parsed.error.line }] };
+    }
+    if (parsed.document === undefined || parsed.document === null) {
+        return { samples: [], errors: [] };
+    }
+
+    const { document } = parsed;
+    const entries = Array.isArray(document)
+        ? document
+        : isRecord(document) && Array.isArray(document.samples) ? document.samples : undefined;
+    if (!entries) {
+        return { samples: [], errors: [{ message: 'expected a list of samples, or an object with a "samples" list', line: 0 }] };
+    }
+
+    const textLines = content
+        .split('\n')
+        .map((text, line) => SAMPLE_TEXT_LINE.test(text) ? line : -1)
+        .filter(line => line !== -1);
+    let textIndex = 0;
+
+    const samples: RuleTestSample[] = [];
+    const errors: RuleTestCorpusError[] = [];
+    entries.forEach((entry: unknown, index: number) => {
+        const line = isRecord(entry) && 'text' in entry ? textLines[textIndex++] : undefined;
+        const report = (message: string) => errors.push({ message: `Sample #${index + 1}: ${message}`, line });
+
+        if (!isRecord(entry)) {
+            report('expected an object with text and expect');
+            return;
+        }
+
+        const problems: string[] = [];
+        for (const field of Object.keys(entry)) {
+            if (!SAMPLE_FIELDS.includes(field)) {
+                problems.push(`unknown field "${field}"; samples have ${SAMPLE_FIELDS.join(', ')}`);
+            }
+        }
+        if (typeof entry.text !== 'string' || entry.text === '') {
+            problems.push('text is required');
+        }
+        if (typeof entry.expect !== 'string' || !EXPECTATIONS.includes(entry.expect)) {
+            problems.push(`expect must be "match" or "no_match"${entry.expect === undefined ? '' : ` (got ${JSON.stringify(entry.expect)})`}`);
+        }
+        if (entry.name !== undefined && typeof entry.name !== 'string') {
+            problems.push('name must be a string');
+        }
+        if (entry.rules !== undefined && (!Array.isArray(entry.rules) || entry.rules.length === 0 ||
+            entry.rules.some(rule => typeof rule !== 'string' || rule === ''))) {
+            problems.push('rules must be a non-empty list of rule ids or categories');
+        } else if (Array.isArray(entry.rules) && knownRules) {
+            const unknown = entry.rules.filter(rule => !knownRules.has(rule));
+            if (unknown.length > 0) {
+                problems.push(`${unknown.map(rule => JSON.stringify(rule)).join(', ')} is not an active rule or a category`);
+            }
+        }
+
+        if (problems.length > 0) {
+            problems.forEach(report);
+            return;
+        }
+
+        samples.push({
+            index,
+            text: entry.text as string,
+            expect: entry.expect as RuleTestSample['expect'],
+            ...(typeof entry.name === 'string' ? { name: entry.name } : {}),
+            ...(Array.isArray(entry.rules) ? { rules: entry.rules as string[] } : {}),
+            ...(line !== undefined ? { line } : {})
+        });
+    });
+
+    return { samples, errors };
+}
+
+/**
+ * Checks if a value is a plain object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * RuleTestRunner runs the active detection rules over a corpus of labeled
+ * sample prompts, so rule authors can see what their regexes match before
+ * they ship.
+ *
+ * Every regex of every active rule is matched on its own: built-in patterns,
+ * language pack patterns, signature pack rules and custom rules. Built-in
+ * patterns are named after their category and position, such as
+ * `rule_bypass#3`; user-defined rules by their id. Decoding, lookalike
+ * folding and keyword correction are not applied, so results show exactly
+ * what each regex matches.
+ *
+ * Responsibilities:
+ * - Parse and validate the corpus, reporting problems per sample
+ * - Record every match of every rule with its span
+ * - Classify samples as passed, missed detections or false positives
+ */
+export class RuleTestRunner {
+    constructor(private readonly securityService: SecurityService) {}
+
+    /**
+     * Runs the active rules over a corpus.
+     *
+     * @param content Content of the corpus file
+     * @param file Path of the corpus file
+     * @returns The outcome of each valid sample and the problems of the others
+     */
+    public run(content: string, file: string): RuleTestReport {
+        const rules = this.listActiveRules(this.securityService.getActiveThreatPatterns());
+        const names = new Set<string>([...rules.map(rule => rule.name), ...SecurityService.getThreatTypes()]);
+        const { samples, errors } = parseRuleTestCorpus(content, file, names);
+
+        const results = samples.map(sample => this.runSample(sample, rules));
+        return { file, ranAt: new Date(), ruleCount: rules.length, results, errors };
+    }
+
+    /**
+     * Matches all rules against a sample and compares the result with its label.
+     */
+    private runSample(sample: RuleTestSample, rules: ActiveRule[]): RuleTestResult {
+        const matches: RuleTestMatch[] = [];
+        for (const rule of rules) {
+            for (const match of sample.text.matchAll(rule.regex)) {
+                if (match[0] === '') {
+                    continue;
+                }
+                const start = match.index ?? 0;
+                matches.push({
+                    rule: rule.name,
+                    type: rule.type,
+                    start,
+                    end: start + match[0].length,
+                    text: match[0],
+                    ...(rule.signaturePack ? { signaturePack: rule.signaturePack } : {})
+                });
+            }
+        }
+        matches.sort((a, b) => a.start - b.start || a.end - b.end);
+
+        const isReferenced = (match: RuleTestMatch, references: string[]) =>
+            references.includes(match.rule) || references.includes(match.type);
+        const fired = (matched: RuleTestMatch[]) => [...new Set(matched.map(match => match.rule))];
+
+        let missed: string[] = [];
+        let falsePositives: string[] = [];
+        if (sample.expect === 'match') {
+            missed = sample.rules
+                ? sample.rules.filter(reference => !matches.some(match => isReferenced(match, [reference])))
+                : matches.length === 0 ? [ANY_RULE] : [];
+        } else {
+            falsePositives = sample.rules
+                ? fired(matches.filter(match => isReferenced(match, sample.rules ?? [])))
+                : fired(matches);
+        }
+
+        return { sample, matches, missed, falsePositives, passed: missed.length === 0 && falsePositives.length === 0 };
+    }
+
+    /**
+     * Splits the active definitions into single named regexes. Regexes are
+     * made global so every match in a sample is reported.
+     */
+    private listActiveRules(definitions: ThreatPatternDefinition[]): ActiveRule[] {
+        return definitions.flatMap(definition => definition.patterns.map((regex, index): ActiveRule => ({
+            name: definition.ruleId ?? `${definition.type}#${index + 1}`,
+            type: definition.type,
+            regex: new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`),
+            ...(definition.signaturePack ? { signaturePack: definition.signaturePack } : {})
+        })));
+    }
+}
@@ -0,0 +1,165 @@
+import { SecretFinding, SecretType } from '../types';
+
+/**
+ * Outbound text with its secrets replaced by placeholders
+ */
+export interface RedactionResult {
+    text: string;
+    findings: SecretFinding[];
+}
+
+/**
+ * Pattern for one kind of secret. When `group` is set, only that capture
+ * group is the secret and the text around it (a key name, a user name) is kept.
+ */
+interface SecretPatternDefinition {
+    type: SecretType;
+    regex: RegExp;
+    group?: number;
+    validate?: (value: string) => boolean;
+}
+
+/**
+ * Values that stand in for a secret rather than being one, such as
+ * `<your-token>`, `${DB_PASSWORD}`, `changeme` or `xxxxxxxx`
+ */
+const PLACEHOLDER_VALUE = /^[$<{%[*]|\b(?:your|example|sample|dummy|placeholder|changeme|redacted)|here$|^(?:pass(?:word)?|secret|token)$|^(.)\1*$/i;
+
+/**
+ * Values of generic assignments that are code rather than literals,
+ * such as `process.env.API_KEY` or `getToken()`
+ */
+const CODE_VALUE = /[()]|^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)+$/;
+
+/**
+ * Line that closes a private key block, for callers that see a block one line at a time
+ */
+export const PRIVATE_KEY_END = /-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/;
+
+/**
+ * Shortest value and lowest Shannon entropy, in bits per character, of a
+ * generic assignment counted as a secret
+ */
+const MIN_GENERIC_SECRET_LENGTH = 12;
+const MIN_GENERIC_SECRET_ENTROPY = 3.3;
+
+/**
+ * Secret patterns, most specific first. A range matched by an earlier
+ * pattern is not matched again by a later one.
+ */
+const SECRET_PATTERNS: SecretPatternDefinition[] = [
+    {
+        type: 'private_key',
+        regex: /-----BEGIN ((?:[A-Z0-9]+ )*)PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END \1PRIVATE KEY(?: BLOCK)?-----|$)/dg
+    },
+    { type: 'aws_access_key', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/dg },
+    {
+        type: 'aws_secret_key',
+        regex: /\baws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/dgi,
+        group: 1
+    },
+    { type: 'github_token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/dg },
+    { type: 'gitlab_token', regex: /\bglpat-[A-Za-z0-9_-]{20,}/dg },
+    { type: 'slack_token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}|https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/_-]+/dg },
+    { type: 'api_secret_key', regex: /\bsk-[A-Za-z0-9_-]{20,}/dg },
+    { type: 'jwt', regex: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{16,}/dg },
+    {
+        type: 'connection_string',
+        regex: /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|rediss?|amqps?|mssql|sqlserver|s?ftp|smtps?):\/\/[^:\s/@]+:([^@\s/]+)@/dgi,
+        group: 1,
+        validate: value => !PLACEHOLDER_VALUE.test(value)
+    },
+    {
+        type: 'connection_string',
+        regex: /(?:^|;)\s*(?:Password|Pwd|AccountKey|SharedAccessKey)\s*=\s*([^;'"\s]+)/dgim,
+        group: 1,
+        validate: value => !PLACEHOLDER_VALUE.test(value)
+    },
+    {
+        type: 'generic_secret',
+        regex: /\b[\w.-]*?(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|private[_-]?key|auth[_-]?key|credentials?)[\w.-]*["']?\s*(?::=|=>|[:=])\s*(["'`]?)([^\s"'`,;]+)\1/dgi,
+        group: 2,
+        validate: value =>
+            value.length >= MIN_GENERIC_SECRET_LENGTH &&
+            !PLACEHOLDER_VALUE.test(value) &&
+            !CODE_VALUE.test(value) &&
+            shannonEntropy(value) >= MIN_GENERIC_SECRET_ENTROPY
+    }
+];
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+/**
+ * SecretScanner finds credentials in outbound prompts and replaces them with
+ * placeholders such as `[REDACTED:aws_access_key]` before the prompt leaves
+ * the machine (DLP mode).
+ *
+ * Responsibilities:
+ * - Detect AWS keys, GitHub, GitLab and Slack tokens, API secret keys,
+ *   private key blocks, JWTs and passwords in connection strings
+ * - Detect high-entropy values assigned to secret-looking names
+ * - Skip placeholders and code, such as `<your-token>` or `process.env.TOKEN`
+ * - Report findings by type and offset only, never by value
+ */
+export class SecretScanner {
+    /**
+     * Finds the secrets in a text.
+     *
+     * @param content The text to scan
+     * @returns Findings in order of their position
+     */
+    public scan(content: string): SecretFinding[] {
+        const findings: SecretFinding[] = [];
+        const overlaps = (start: number, end: number) =>
+            findings.some(finding => start < finding.end && end > finding.start);
+
+        for (const definition of SECRET_PATTERNS) {
+            const group = definition.group ?? 0;
+            for (const match of content.matchAll(definition.regex)) {
+                const value = match[group];
+                if (!value || (definition.validate && !definition.validate(value))) {
+                    continue;
+                }
+
+                const [start, end] = match.indices?.[group] ?? [0, 0];
+                if (!overlaps(start, end)) {
+                    findings.push({ type: definition.type, start, end });
+                }
+            }
+        }
+
+        return findings.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Replaces the secrets in a text with `[REDACTED:<type>]` placeholders.
+     *
+     * @param content The text to redact
+     * @returns The redacted text and the secrets that were replaced
+     */
+    public redact(content: string): RedactionResult {
+        const findings = this.scan(content);
+
+        let text = content;
+        for (const finding of [...findings].reverse()) {
+            text = text.substring(0, finding.start) + `[REDACTED:${finding.type}]` + text.substring(finding.end);
+        }
+
+        return { text, findings };
+    }
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import * as vscode from 'vscode';
+import { compareVersions, computePackChecksum, ParsedSignaturePack, parseSignaturePack, SignaturePackService } from './SignaturePackService';
+import { SecurityService } from './SecurityService';
+
+const MANIFEST = {
+    name: 'acme-signatures',
+    version: '1.2.0',
+    author: 'ACME Security',
+    changelog: [{ version: '1.2.0', changes: ['Detect requests for the deploy key'] }]
+};
+
+const RULES = [{
+    id: 'acme-deploy-key',
+    category: 'secret_extraction',
+    severity: 'high',
+    description: 'Asks for the deploy key',
+    regex: 'deploy\\s+key'
+}];
+
+/**
+ * Serializes a pack as JSON with the checksum of its manifest and rules.
+ */
+function packJson(manifest: object = MANIFEST, rules: object[] = RULES): string {
+    return JSON.stringify({ manifest, rules, checksum: computePackChecksum(manifest, rules) });
+}
+
+/**
+ * In-memory stand-in for VS Code global state.
+ */
+function createMemento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue) as T,
+        update: async (key: string, value: unknown) => {
+            values.set(key, JSON.parse(JSON.stringify(value)));
+        }
+    } as vscode.Memento;
+}
+
+describe('computePackChecksum', () => {
+    it('gives the same checksum for the same pack in JSON and YAML and in any key order', () => {
+        const yaml = `manifest:
+  version: 1.2.0
+  name: acme-signatures
+  changelog:
+    - changes: [Detect requests for the deploy key]
+      version: 1.2.0
+  author: ACME Security
+rules:
+  - regex: 'deploy\\s+key'
+    id: acme-deploy-key
+    severity: high
+    category: secret_extraction
+    description: Asks for the deploy key
+checksum: ${computePackChecksum(MANIFEST, RULES)}
+`;
+
+        expect(parseSignaturePack(yaml, 'pack.yaml').errors).toEqual([]);
+        expect(parseSignaturePack(yaml, 'pack.yaml').pack?.checksum).toBe(parseSignaturePack(packJson(), 'pack.json').pack?.checksum);
+    });
+});
+
+describe('compareVersions', () => {
+    it('orders versions by major, minor and patch numbers', () => {
+        expect(compareVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+        expect(compareVersions('2.0.0-beta.1', '2.0.0')).toBe(0);
+        expect(compareVersions('0.9.9', '1.0.0')).toBeLessThan(0);
+    });
+});
+
+describe('parseSignaturePack', () => {
+    it('compiles the rules tagged with the pack version', () => {
+        const { pack, errors } = parseSignaturePack(packJson(), 'pack.json');
+
+        expect(errors).toEqual([]);
+        expect(pack?.rules[0]).toMatchObject({
+            ruleId: 'acme-deploy-key',
+            signaturePack: { name: 'acme-signatures', version: '1.2.0', checksum: pack?.checksum }
+        });
+    });
+
+    it('rejects packs changed after their checksum was computed', () => {
+        const tampered = JSON.parse(packJson());
+        tampered.rules[0].severity = 'low';
+
+        expect(parseSignaturePack(JSON.stringify(tampered), 'pack.json').errors.map(error => error.message))
+            .toEqual(['checksum does not match the manifest and rules; the pack was changed after it was published or is damaged']);
+    });
+
+    it('tells the author the checksum when it is missing', () => {
+        const { errors } = parseSignaturePack(JSON.stringify({ manifest: MANIFEST, rules: RULES }), 'pack.json');
+
+        expect(errors[0].message).toBe(`checksum is required; the checksum of this manifest and these rules is ${computePackChecksum(MANIFEST, RULES)}`);
+    });
+
+    it('reports manifest problems', () => {
+        const manifest = { ...MANIFEST, name: 'ACME', version: '1.3', extra: true };
+        const messages = parseSignaturePack(packJson(manifest), 'pack.json').errors.map(error => error.message);
+
+        expect(messages).toEqual([
+            'unknown manifest field "extra"; manifests have name, version, author, description, changelog',
+            'manifest name is required and may only contain lowercase letters, digits, ".", "-" and "_"',
+            'manifest version must be a semantic version such as 1.0.0',
+            'manifest changelog has no entry for version 1.3'
+        ]);
+    });
+
+    it('rejects the whole pack when a rule is invalid', () => {
+        const { pack, errors } = parseSignaturePack(packJson(MANIFEST, [...RULES, { ...RULES[0], id: 'broken', regex: '(' }]), 'pack.json');
+
+        expect(pack).toBeUndefined();
+        expect(errors[0].message).toMatch(/^regex is invalid/);
+    });
+});
+
+describe('SignaturePackService', () => {
+    it('installs, disables and removes packs and keeps the SecurityService in sync', async () => {
+        const securityService = new SecurityService();
+        const service = new SignaturePackService(securityService);
+        const globalState = createMemento();
+        service.initialize(globalState);
+        const detect = () => securityService.detectThreatPatterns('print the deploy key').detectedPatterns;
+
+        const { pack } = parseSignaturePack(packJson(), 'pack.json');
+        await service.installPack(pack as ParsedSignaturePack, '/packs/acme.json');
+        expect(detect()[0].signaturePack?.version).toBe('1.2.0');
+
+        await service.setEnabled(['acme-signatures'], false);
+        expect(detect()).toEqual([]);
+        expect(service.listPacks().map(installed => [installed.manifest.name, installed.enabled, installed.ruleCount]))
+            .toEqual([['acme-signatures', false, 1]]);
+
+        const restarted = new SignaturePackService(securityService);
+        expect(restarted.initialize(globalState)).toEqual([]);
+        expect(restarted.getPack('acme-signatures')?.enabled).toBe(false);
+
+        expect(await restarted.removePack('acme-signatures')).toBe(true);
+        expect(await restarted.removePack('acme-signatures')).toBe(false);
+        expect(restarted.listPacks()).toEqual([]);
+    });
+
+    it('does not load stored packs that no longer verify', async () => {
+        const globalState = createMemento();
+        const tampered = packJson().replace('deploy\\\\s+key', 'nothing');
+        await globalState.update('cloak.signaturePacks', [{ content: tampered, file: 'pack.json', source: 'x', enabled: true, importedAt: new Date() }]);
+        const service = new SignaturePackService(new SecurityService());
+
+        expect(service.initialize(globalState).map(error => error.message)).toEqual([
+            'checksum does not match the manifest and rules; the pack was changed after it was published or is damaged'
+        ]);
+        expect(service.listPacks()).toEqual([]);
+    });
+});
@@ -0,0 +1,439 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { SignaturePackChangelogEntry, SignaturePackManifest, SignaturePackVersion } from '../types';
+import { CustomRuleError, compileRules, parseRulesDocument } from './CustomRuleLoader';
+import { SecurityService, ThreatPatternDefinition } from './SecurityService';
+
+/**
+ * Signature pack parsed from a pack file, with its rules compiled
+ */
+export interface ParsedSignaturePack {
+    manifest: SignaturePackManifest;
+    checksum: string;
+    rules: ThreatPatternDefinition[];
+    content: string;
+    file: string;
+}
+
+/**
+ * Signature pack installed in Cloak
+ */
+export interface InstalledSignaturePack {
+    manifest: SignaturePackManifest;
+    checksum: string;
+    ruleCount: number;
+    enabled: boolean;
+    importedAt: Date;
+    source: string;
+}
+
+/**
+ * Pack as persisted in global state. The original file content is kept so the
+ * checksum is verified and the rules compiled again on every start.
+ */
+interface StoredSignaturePack {
+    content: string;
+    file: string;
+    source: string;
+    enabled: boolean;
+    importedAt: Date;
+}
+
+/**
+ * Top-level fields of a pack file and fields of its manifest
+ */
+const PACK_FIELDS = ['manifest', 'checksum', 'rules'];
+const MANIFEST_FIELDS = ['name', 'version', 'author', 'description', 'changelog'];
+
+/**
+ * Pack names: lowercase letters, digits, dots, dashes and underscores
+ */
+const PACK_NAME = /^[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * Semantic version, such as 1.4.0 or 2.0.0-beta.1
+ */
+const PACK_VERSION = /^(\d+)\.(\d+)\.(\d+)(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Checksum field: a SHA-256 hex digest, optionally prefixed with "sha256:"
+ */
+const PACK_CHECKSUM = /^(?:sha256:)?([0-9a-f]{64})$/i;
+
+/**
+ * Serializes a value as JSON with object keys sorted and no whitespace, so
+ * the same pack has the same checksum in JSON and YAML and in any key order.
+ */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Computes the checksum of a pack: the SHA-256 digest of its manifest and
+ * rules serialized as canonical JSON.
+ *
+ * @param manifest The manifest as parsed from the pack file
+ * @param rules The rules as parsed from the pack file
+ * @returns The checksum as `sha256:<hex>`
+ */
+export function computePackChecksum(manifest: unknown, rules: unknown): string {
+    const digest = crypto.createHash('sha256').update(canonicalJson({ manifest, rules })).digest('hex');
+    return `sha256:${digest}`;
+}
+
+/**
+ * Compares two pack versions by their major, minor and patch numbers.
+ *
+ * @returns A negative number if a is older than b, positive if newer, 0 if equal
+ */
+export function compareVersions(a: string, b: string): number {
+    const parse = (version: string) => (PACK_VERSION.exec(version) ?? []).slice(1, 4).map(Number);
+    const [left, right] = [parse(a), parse(b)];
+    for (let i = 0; i < 3; i++) {
+        const difference = (left[i] ?? 0) - (right[i] ?? 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Parses and verifies a signature pack file.
+ *
+ * A pack file holds a `manifest` (name, version, author, optional description
+ * and a changelog with an entry for the current version), a `checksum` and a
+ * list of `rules` in the format of custom rules files. A pack is only valid as
+ * a whole: any problem in the manifest, the checksum or a rule rejects it.
+ *
+ * @param content Content of the pack file
+ * @param file Path of the file; a `.json` extension selects the JSON parser, anything else YAML
+ * @returns The pack, or the problems that reject it
+ */
+export function parseSignaturePack(content: string, file: string): { pack?: ParsedSignaturePack; errors: CustomRuleError[] } {
+    const parsed = parseRulesDocument(content, file);
+    if (parsed.error) {
+        return { errors: [parsed.error] };
+    }
+
+    const document = parsed.document;
+    if (!isRecord(document)) {
+        return { errors: [{ file, line: 0, message: 'expected an object with manifest, checksum and rules' }] };
+    }
+
+    const errors: CustomRuleError[] = [];
+    const report = (message: string) => errors.push({ file, line: 0, message });
+
+    for (const field of Object.keys(document)) {
+        if (!PACK_FIELDS.includes(field)) {
+            report(`unknown field "${field}"; packs have ${PACK_FIELDS.join(', ')}`);
+        }
+    }
+
+    const manifest = validateManifest(document.manifest, report);
+
+    if (!Array.isArray(document.rules) || document.rules.length === 0) {
+        report('rules must be a non-empty list');
+    }
+
+    const checksum = typeof document.checksum === 'string' ? PACK_CHECKSUM.exec(document.checksum.trim()) : null;
+    const expected = computePackChecksum(document.manifest, document.rules);
+    if (document.checksum === undefined) {
+        report(`checksum is required; the checksum of this manifest and these rules is ${expected}`);
+    } else if (!checksum) {
+        report('checksum must be a SHA-256 digest written as sha256:<64 hex digits>');
+    } else if (`sha256:${checksum[1].toLowerCase()}` !== expected) {
+        report('checksum does not match the manifest and rules; the pack was changed after it was published or is damaged');
+    }
+
+    if (!Array.isArray(document.rules) || errors.length > 0 || !manifest) {
+        return { errors };
+    }
+
+    const compiled = compileRules(document.rules, content, file);
+    if (compiled.errors.length > 0) {
+        return { errors: compiled.errors };
+    }
+
+    const version: SignaturePackVersion = { name: manifest.name, version: manifest.version, checksum: expected };
+    return {
+        pack: {
+            manifest,
+            checksum: expected,
+            rules: compiled.rules.map(rule => ({ ...rule, signaturePack: version })),
+            content,
+            file
+        },
+        errors: []
+    };
+}
+
+/**
+ * Checks the manifest of a pack.
+ *
+ * @returns The manifest, or undefined if it has problems
+ */
+function validateManifest(value: unknown, report: (message: string) => void): SignaturePackManifest | undefined {
+    if (!isRecord(value)) {
+        report('manifest is required, with name, version, author and changelog');
+        return undefined;
+    }
+
+    const problems: string[] = [];
+    for (const field of Object.keys(value)) {
+        if (!MANIFEST_FIELDS.includes(field)) {
+            problems.push(`unknown manifest field "${field}"; manifests have ${MANIFEST_FIELDS.join(', ')}`);
+        }
+    }
+    if (typeof value.name !== 'string' || !PACK_NAME.test(value.name)) {
+        problems.push('manifest name is required and may only contain lowercase letters, digits, ".", "-" and "_"');
+    }
+    if (typeof value.version !== 'string' || !PACK_VERSION.test(value.version)) {
+        problems.push('manifest version must be a semantic version such as 1.0.0');
+    }
+    if (typeof value.author !== 'string' || value.author.trim() === '') {
+        problems.push('manifest author is required');
+    }
+    if (value.description !== undefined && typeof value.description !== 'string') {
+        problems.push('manifest description must be a string');
+    }
+
+    const changelog = validateChangelog(value.changelog, problems);
+    if (changelog && typeof value.version === 'string' && !changelog.some(entry => entry.version === value.version)) {
+        problems.push(`manifest changelog has no entry for version ${value.version}`);
+    }
+
+    problems.forEach(report);
+    if (problems.length > 0 || !changelog) {
+        return undefined;
+    }
+
+    return {
+        name: value.name as string,
+        version: value.version as string,
+        author: (value.author as string).trim(),
+        ...(typeof value.description === 'string' ? { description: value.description } : {}),
+        changelog
+    };
+}
+
+/**
+ * Checks the changelog of a manifest: a list of versions with their changes.
+ */
+function validateChangelog(value: unknown, problems: string[]): SignaturePackChangelogEntry[] | undefined {
+    const isEntry = (entry: unknown): entry is SignaturePackChangelogEntry =>
+        isRecord(entry) &&
+        typeof entry.version === 'string' &&
+        Array.isArray(entry.changes) &&
+        entry.changes.length > 0 &&
+        entry.changes.every(change => typeof change === 'string') &&
+        Object.keys(entry).every(key => key === 'version' || key === 'changes');
+
+    if (!Array.isArray(value) || value.length === 0 || !value.every(isEntry)) {
+        problems.push('manifest changelog must be a non-empty list of entries with a version and a list of changes');
+        return undefined;
+    }
+    return value.map(entry => ({ version: entry.version, changes: [...entry.changes] }));
+}
+
+/**
+ * Checks if a value is a plain object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * SignaturePackService manages signature packs: versioned bundles of
+ * detection rules that security teams distribute as files.
+ *
+ * Packs are copied into global state when imported, so they apply to every
+ * workspace and keep working if the original file is moved or changed. The
+ * checksum is verified on import and again on every start.
+ *
+ * Responsibilities:
+ * - Import packs after verifying their manifest, checksum and rules
+ * - List, enable, disable and remove installed packs
+ * - Hand the rules of the enabled packs to the SecurityService, tagged with
+ *   the pack version so analyses record which signatures made a detection
+ */
+export class SignaturePackService {
+    private packs: Map<string, { stored: StoredSignaturePack; parsed: ParsedSignaturePack }> = new Map();
+    private globalState: vscode.Memento | undefined;
+    private readonly PACKS_KEY = 'cloak.signaturePacks';
+
+    constructor(private readonly securityService: SecurityService) {}
+
+    /**
+     * Loads the installed packs from VS Code global state and activates the
+     * enabled ones. Must be called during extension activation.
+     *
+     * @param globalState VS Code extension global state for persistence
+     * @returns Problems of installed packs that no longer verify; those packs are not loaded
+     */
+    public initialize(globalState: vscode.Memento): CustomRuleError[] {
+        this.globalState = globalState;
+        this.packs.clear();
+
+        const errors: CustomRuleError[] = [];
+        const stored = globalState.get<StoredSignaturePack[]>(this.PACKS_KEY);
+        for (const entry of Array.isArray(stored) ? stored : []) {
+            const result = parseSignaturePack(entry.content, entry.file);
+            if (result.pack) {
+                this.packs.set(result.pack.manifest.name, {
+                    stored: { ...entry, importedAt: new Date(entry.importedAt) },
+                    parsed: result.pack
+                });
+            } else {
+                errors.push(...result.errors);
+            }
+        }
+
+        this.applyPacks();
+        return errors;
+    }
+
+    /**
+     * Reads and verifies a pack file without installing it.
+     *
+     * @param uri Location of the pack file
+     * @returns The pack, or the problems that reject it
+     */
+    public async readPack(uri: vscode.Uri): Promise<{ pack?: ParsedSignaturePack; errors: CustomRuleError[] }> {
+        const file = uri.path.substring(uri.path.lastIndexOf('/') + 1);
+        let content: string;
+        try {
+            content = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+        } catch (error) {
+            return { errors: [{ file, line: 0, message: `cannot be read: ${error instanceof Error ? error.message : String(error)}` }] };
+        }
+        return parseSignaturePack(content, file);
+    }
+
+    /**
+     * Installs a verified pack, replacing an installed pack with the same name.
+     * A replaced pack keeps its enabled state; a new pack is enabled.
+     *
+     * @param pack The pack returned by readPack
+     * @param source Where the pack was imported from, shown when listing packs
+     * @returns The installed pack
+     */
+    public async installPack(pack: ParsedSignaturePack, source: string): Promise<InstalledSignaturePack> {
+        const previous = this.packs.get(pack.manifest.name);
+        const stored: StoredSignaturePack = {
+            content: pack.content,
+            file: pack.file,
+            source,
+            enabled: previous?.stored.enabled ?? true,
+            importedAt: new Date()
+        };
+        this.packs.set(pack.manifest.name, { stored, parsed: pack });
+
+        await this.persist();
+        this.applyPacks();
+        return this.toInstalledPack(stored, pack);
+    }
+
+    /**
+     * Gets an installed pack by name.
+     */
+    public getPack(name: string): InstalledSignaturePack | undefined {
+        const entry = this.packs.get(name);
+        return entry ? this.toInstalledPack(entry.stored, entry.parsed) : undefined;
+    }
+
+    /**
+     * Lists the installed packs by name.
+     */
+    public listPacks(): InstalledSignaturePack[] {
+        return [...this.packs.values()]
+            .map(entry => this.toInstalledPack(entry.stored, entry.parsed))
+            .sort((a, b) => a.manifest.name.localeCompare(b.manifest.name));
+    }
+
+    /**
+     * Enables or disables installed packs.
+     *
+     * @param names Names of the packs to change
+     * @param enabled Whether the rules of the packs are matched
+     */
+    public async setEnabled(names: string[], enabled: boolean): Promise<void> {
+        for (const name of names) {
+            const entry = this.packs.get(name);
+            if (entry) {
+                entry.stored.enabled = enabled;
+            }
+        }
+
+        await this.persist();
+        this.applyPacks();
+    }
+
+    /**
+     * Removes an installed pack.
+     *
+     * @param name Name of the pack
+     * @returns true if the pack was installed
+     */
+    public async removePack(name: string): Promise<boolean> {
+        if (!this.packs.delete(name)) {
+            return false;
+        }
+
+        await this.persist();
+        this.applyPacks();
+        return true;
+    }
+
+    /**
+     * Hands the rules of the enabled packs to the SecurityService.
+     */
+    private applyPacks(): void {
+        const rules = [...this.packs.values()]
+            .filter(entry => entry.stored.enabled)
+            .sort((a, b) => a.parsed.manifest.name.localeCompare(b.parsed.manifest.name))
+            .flatMap(entry => entry.parsed.rules);
+        this.securityService.updateSignaturePacks(rules);
+    }
+
+    /**
+     * Persists the installed packs to VS Code global state.
+     */
+    private async persist(): Promise<void> {
+        if (!this.globalState) {
+            return;
+        }
+
+        try {
+            await this.globalState.update(this.PACKS_KEY, [...this.packs.values()].map(entry => entry.stored));
+        } catch (error) {
+            console.error('Failed to persist signature packs:', error);
+        }
+    }
+
+    /**
+     * Builds the public view of an installed pack.
+     */
+    private toInstalledPack(stored: StoredSignaturePack, parsed: ParsedSignaturePack): InstalledSignaturePack {
+        return {
+            manifest: {
+                ...parsed.manifest,
+                changelog: parsed.manifest.changelog.map(entry => ({ ...entry, changes: [...entry.changes] }))
+            },
+            checksum: parsed.checksum,
+            ruleCount: parsed.rules.length,
+            enabled: stored.enabled,
+            importedAt: stored.importedAt,
+            source: stored.source
+        };
+    }
+}
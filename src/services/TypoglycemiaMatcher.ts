@@ -0,0 +1,197 @@
+import { NormalizedText } from './ConfusableNormalizer';
+
+/**
+ * Keywords whose scrambled and misspelled forms are restored before matching
+ */
+export const DEFAULT_SENSITIVE_KEYWORDS: string[] = [
+    'ignore', 'disregard', 'forget', 'override', 'bypass', 'disable',
+    'previous', 'instructions', 'guidelines', 'restrictions',
+    'system', 'prompt', 'reveal', 'secrets', 'credentials', 'password'
+];
+
+/**
+ * Shortest word considered a variant of a keyword. Shorter words have too
+ * many lookalikes among ordinary words.
+ */
+const MIN_WORD_LENGTH = 4;
+
+/**
+ * Edits (insertions, deletions, substitutions or swaps of adjacent letters)
+ * allowed per letter of a keyword: one edit for keywords of 5 to 9 letters,
+ * two from 10 letters. Two edits on a shorter keyword turn ordinary words
+ * into keywords, such as "passport" into "password".
+ */
+const MAX_EDIT_RATIO = 0.2;
+
+/**
+ * Ordinary words that are scrambled forms of a keyword or within the allowed
+ * edits of one. Real words are never corrected, whatever the keywords.
+ */
+const ORDINARY_WORDS = new Set([
+    'credentialed', 'forged', 'forgot', 'instructor', 'instructors', 'overrode',
+    'passport', 'passports', 'pervious', 'precious', 'repeal', 'repeals',
+    'revel', 'revels', 'secrete', 'secretes'
+]);
+
+/**
+ * Number of edits allowed for a keyword of a given length
+ */
+function allowedEdits(keyword: string): number {
+    return Math.floor(keyword.length * MAX_EDIT_RATIO);
+}
+
+/**
+ * TypoglycemiaMatcher restores sensitive keywords written as scrambled or
+ * misspelled words, so "ignroe all previosu insturctions" is matched by the
+ * same phrase patterns as "ignore all previous instructions".
+ *
+ * A word is read as a keyword when it starts with the same letter and either
+ * - has the same letters in a different order ("ignreo"), or
+ * - is within one edit per five letters of the keyword ("intructions")
+ *
+ * Inflections of a keyword such as "ignored" or "prompts" are left as they are;
+ * the phrase patterns already handle them. Ordinary words that happen to be
+ * close to a keyword, such as "passport" or "precious", are never corrected.
+ */
+export class TypoglycemiaMatcher {
+    private keywords: string[] = [];
+
+    constructor(keywords: string[] = DEFAULT_SENSITIVE_KEYWORDS) {
+        this.setKeywords(keywords);
+    }
+
+    /**
+     * Sets the keywords whose variants are restored.
+     *
+     * @param keywords Sensitive keywords, case-insensitive
+     */
+    public setKeywords(keywords: string[]): void {
+        const normalized = keywords
+            .map(keyword => keyword.trim().toLowerCase())
+            .filter(keyword => keyword.length >= MIN_WORD_LENGTH && /^\p{L}+$/u.test(keyword));
+        this.keywords = [...new Set(normalized)];
+    }
+
+    /**
+     * Gets the keywords whose variants are restored.
+     */
+    public getKeywords(): string[] {
+        return [...this.keywords];
+    }
+
+    /**
+     * Replaces scrambled and misspelled keywords with the keywords themselves.
+     *
+     * @param content The text to correct
+     * @returns The corrected text with the original range of each character
+     */
+    public correct(content: string): NormalizedText {
+        let text = '';
+        const sourceStarts: number[] = [];
+        const sourceEnds: number[] = [];
+        const corrections = new Map<string, string | undefined>();
+        let offset = 0;
+
+        const keep = (end: number) => {
+            for (; offset < end; offset++) {
+                text += content[offset];
+                sourceStarts.push(offset);
+                sourceEnds.push(offset + 1);
+            }
+        };
+
+        for (const match of content.matchAll(/\p{L}+/gu)) {
+            const word = match[0];
+            const lower = word.toLowerCase();
+            if (!corrections.has(lower)) {
+                corrections.set(lower, this.findKeyword(lower));
+            }
+
+            const keyword = corrections.get(lower);
+            if (keyword === undefined) {
+                continue;
+            }
+
+            const start = match.index ?? 0;
+            const end = start + word.length;
+            keep(start);
+
+            // Every character of the keyword stands for the whole original word
+            text += keyword;
+            for (let i = 0; i < keyword.length; i++) {
+                sourceStarts.push(start);
+                sourceEnds.push(end);
+            }
+            offset = end;
+        }
+        keep(content.length);
+
+        return { text, sourceStarts, sourceEnds };
+    }
+
+    /**
+     * Finds the keyword a lowercase word is a variant of.
+     */
+    private findKeyword(word: string): string | undefined {
+        if (word.length < MIN_WORD_LENGTH || this.keywords.includes(word) || ORDINARY_WORDS.has(word)) {
+            return undefined;
+        }
+
+        for (const keyword of this.keywords) {
+            if (word[0] !== keyword[0] || word.startsWith(keyword) || keyword.startsWith(word)) {
+                continue;
+            }
+            if (this.isScrambled(word, keyword) || this.isMisspelled(word, keyword)) {
+                return keyword;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Checks if a word has the letters of a keyword in a different order.
+     */
+    private isScrambled(word: string, keyword: string): boolean {
+        if (word.length !== keyword.length) {
+            return false;
+        }
+        return [...word].sort().join('') === [...keyword].sort().join('');
+    }
+
+    /**
+     * Checks if a word is within the allowed number of edits of a keyword,
+     * counting a swap of adjacent letters as one edit.
+     */
+    private isMisspelled(word: string, keyword: string): boolean {
+        const limit = allowedEdits(keyword);
+        if (limit === 0 || Math.abs(word.length - keyword.length) > limit) {
+            return false;
+        }
+
+        // Optimal string alignment distance
+        const rows: number[][] = [];
+        for (let i = 0; i <= word.length; i++) {
+            rows.push([i]);
+        }
+        for (let j = 1; j <= keyword.length; j++) {
+            rows[0][j] = j;
+        }
+
+        for (let i = 1; i <= word.length; i++) {
+            for (let j = 1; j <= keyword.length; j++) {
+                const cost = word[i - 1] === keyword[j - 1] ? 0 : 1;
+                rows[i][j] = Math.min(
+                    rows[i - 1][j] + 1,
+                    rows[i][j - 1] + 1,
+                    rows[i - 1][j - 1] + cost
+                );
+                if (i > 1 && j > 1 && word[i - 1] === keyword[j - 2] && word[i - 2] === keyword[j - 1]) {
+                    rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+                }
+            }
+        }
+
+        return rows[word.length][keyword.length] <= limit;
+    }
+}
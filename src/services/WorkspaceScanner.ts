@@ -0,0 +1,435 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileScanResult, ScanFinding, ThreatPattern, WorkspaceScanReport } from '../types';
+import { SecurityService } from './SecurityService';
+import { ConfigurationService } from './ConfigurationService';
+
+/**
+ * Options for a workspace scan
+ */
+export interface WorkspaceScanOptions {
+    /** Also classify each file with the SLM (slow) */
+    useSlm: boolean;
+}
+
+/**
+ * Text segment of a file that is scanned, with its offset in the file
+ */
+interface TextSegment {
+    text: string;
+    offset: number;
+}
+
+/**
+ * How the scanned text is taken from a file
+ */
+type ExtractionMode = 'document' | 'cStyleComments' | 'hashComments';
+
+/**
+ * Files that AI agents commonly read: documentation, agent instruction files,
+ * configuration and source code (comments only)
+ */
+const DOCUMENT_EXTENSIONS = ['md', 'mdx', 'markdown', 'txt', 'rst', 'adoc'];
+const CONFIG_EXTENSIONS = ['json', 'jsonc', 'yaml', 'yml', 'toml', 'ini', 'cfg', 'xml'];
+const C_STYLE_EXTENSIONS = ['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'java', 'kt', 'cs', 'c', 'h', 'cpp', 'hpp', 'go', 'rs', 'swift', 'php', 'scala', 'dart'];
+const HASH_COMMENT_EXTENSIONS = ['py', 'rb', 'sh', 'bash', 'zsh', 'ps1', 'pl', 'r'];
+const INSTRUCTION_FILE_NAMES = ['README', '.cursorrules', '.clinerules', '.windsurfrules'];
+
+/**
+ * Dependency folders skipped in addition to `files.exclude`
+ */
+const ALWAYS_EXCLUDED = ['**/node_modules/**'];
+
+/**
+ * Upper bound on the number of files collected for a single scan
+ */
+const MAX_SCAN_FILES = 5000;
+
+/**
+ * WorkspaceScanner looks for indirect prompt injection in workspace files,
+ * so poisoned content in cloned repositories is found before an agent reads it.
+ *
+ * Responsibilities:
+ * - Collect documentation, configuration and source files, honoring `files.exclude`
+ *   and the configured size limit
+ * - Run local threat pattern detection on documents and on code comments
+ * - Optionally classify each file with the SLM
+ */
+export class WorkspaceScanner {
+    private securityService: SecurityService;
+    private maxFileSize: number;
+
+    constructor(securityService: SecurityService, configService?: ConfigurationService) {
+        this.securityService = securityService;
+
+        if (configService) {
+            this.maxFileSize = configService.getScanMaxFileSize();
+        } else {
+            // Fall back to direct VS Code config access
+            const config = vscode.workspace.getConfiguration('cloak');
+            this.maxFileSize = config.get<number>('scanMaxFileSize', 512);
+        }
+    }
+
+    /**
+     * Scans all matching files in the open workspace folders.
+     *
+     * @param options Scan options
+     * @param progress Progress reporter for the scan notification
+     * @param token Cancellation token
+     * @returns Report with the files that contain findings
+     */
+    public async scanWorkspace(
+        options: WorkspaceScanOptions,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<WorkspaceScanReport> {
+        const startedAt = new Date();
+        const report: WorkspaceScanReport = {
+            startedAt,
+            duration: 0,
+            filesScanned: 0,
+            filesSkipped: 0,
+            usedSlm: options.useSlm,
+            cancelled: false,
+            results: []
+        };
+
+        progress.report({ message: 'Collecting files...' });
+
+        const uris = await vscode.workspace.findFiles(
+            this.buildIncludePattern(),
+            this.buildExcludePattern(),
+            MAX_SCAN_FILES,
+            token
+        );
+        const increment = uris.length > 0 ? 100 / uris.length : 100;
+
+        for (const uri of uris) {
+            if (token.isCancellationRequested) {
+                report.cancelled = true;
+                break;
+            }
+
+            const filePath = vscode.workspace.asRelativePath(uri);
+            progress.report({ message: filePath, increment });
+
+            try {
+                const result = await this.scanFile(uri, filePath, options);
+                if (result === undefined) {
+                    report.filesSkipped++;
+                    continue;
+                }
+
+                report.filesScanned++;
+                if (result.findings.length > 0 || result.threatLevel !== 'safe') {
+                    report.results.push(result);
+                }
+            } catch (error) {
+                console.error(`Failed to scan ${filePath}:`, error);
+                report.filesSkipped++;
+            }
+        }
+
+        report.duration = Date.now() - startedAt.getTime();
+        return report;
+    }
+
+    /**
+     * Scans a single file.
+     *
+     * @param uri The file to scan
+     * @param filePath Workspace-relative path for display
+     * @param options Scan options
+     * @returns The scan result, or undefined if the file was skipped
+     */
+    public async scanFile(
+        uri: vscode.Uri,
+        filePath: string,
+        options: WorkspaceScanOptions
+    ): Promise<FileScanResult | undefined> {
+        const stat = await vscode.workspace.fs.stat(uri);
+        if (stat.size > this.maxFileSize * 1024) {
+            return undefined;
+        }
+
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        const content = new TextDecoder('utf-8').decode(bytes);
+
+        // Skip binary files
+        if (content.includes('\u0000')) {
+            return undefined;
+        }
+
+        const result = this.scanContent(content, uri, filePath);
+
+        if (options.useSlm) {
+            const segments = this.extractSegments(content, this.getExtractionMode(uri));
+            if (segments.length > 0) {
+                await this.classifyWithSlm(result, segments, this.computeLineStarts(content), uri);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Runs local threat pattern detection on the content of a file.
+     * Documents and configuration are scanned in full, source files only in comments.
+     *
+     * @param content The file content
+     * @param uri The file the content belongs to
+     * @param filePath Workspace-relative path for display
+     * @returns The scan result with located findings
+     */
+    public scanContent(content: string, uri: vscode.Uri, filePath: string): FileScanResult {
+        const segments = this.extractSegments(content, this.getExtractionMode(uri));
+        const lineStarts = this.computeLineStarts(content);
+        const findings: ScanFinding[] = [];
+        let threatLevel: FileScanResult['threatLevel'] = 'safe';
+
+        for (const segment of segments) {
+            const detection = this.securityService.detectThreatPatterns(segment.text);
+            threatLevel = this.getMoreSevereThreatLevel(threatLevel, detection.suggestedThreatLevel);
+
+            for (const pattern of detection.detectedPatterns) {
+                const start = segment.offset + (pattern.location?.start ?? 0);
+                const end = segment.offset + (pattern.location?.end ?? segment.text.length);
+                findings.push(this.createFinding(uri, filePath, lineStarts, start, end, {
+                    ...pattern,
+                    location: { start, end }
+                }));
+            }
+        }
+
+        return {
+            filePath,
+            uri: uri.toString(),
+            threatLevel,
+            findings
+        };
+    }
+
+    /**
+     * Checks if a file is of a kind that scans cover.
+     *
+     * @param uri The file to check
+     * @returns true if the file is a document, configuration or source file
+     */
+    public isScannable(uri: vscode.Uri): boolean {
+        const fileName = path.basename(uri.path);
+        const extension = path.extname(fileName).slice(1).toLowerCase();
+
+        return INSTRUCTION_FILE_NAMES.includes(fileName) ||
+            DOCUMENT_EXTENSIONS.includes(extension) ||
+            CONFIG_EXTENSIONS.includes(extension) ||
+            C_STYLE_EXTENSIONS.includes(extension) ||
+            HASH_COMMENT_EXTENSIONS.includes(extension);
+    }
+
+    /**
+     * Gets the largest file size included in scans.
+     *
+     * @returns File size limit in kilobytes
+     */
+    public getMaxFileSize(): number {
+        return this.maxFileSize;
+    }
+
+    /**
+     * Classifies the scanned text of a file with the SLM. Local findings keep
+     * their exact positions; SLM findings without a position are reported at
+     * the start of the scanned text.
+     */
+    private async classifyWithSlm(
+        result: FileScanResult,
+        segments: TextSegment[],
+        lineStarts: number[],
+        uri: vscode.Uri
+    ): Promise<void> {
+        const analysis = await this.securityService.analyzeReference({
+            id: result.uri,
+            label: result.filePath,
+            content: segments.map(segment => segment.text).join('\n')
+        });
+
+        // A failed SLM request yields zero confidence; keep the local result then
+        if (analysis.confidence === 0 && analysis.detectedPatterns.length === 0) {
+            return;
+        }
+
+        result.threatLevel = this.getMoreSevereThreatLevel(result.threatLevel, analysis.threatLevel);
+        if (analysis.threatLevel !== 'safe') {
+            result.reasoning = analysis.reasoning;
+        }
+
+        const localTypes = new Set(result.findings.map(finding => finding.pattern.type));
+        const start = segments[0].offset;
+        for (const pattern of analysis.detectedPatterns) {
+            if (!pattern.location && !localTypes.has(pattern.type)) {
+                result.findings.push(this.createFinding(uri, result.filePath, lineStarts, start, start, pattern));
+            }
+        }
+    }
+
+    /**
+     * Builds the glob for all files that AI agents commonly read.
+     */
+    private buildIncludePattern(): string {
+        const extensions = [
+            ...DOCUMENT_EXTENSIONS,
+            ...CONFIG_EXTENSIONS,
+            ...C_STYLE_EXTENSIONS,
+            ...HASH_COMMENT_EXTENSIONS
+        ];
+        const patterns = [
+            ...extensions.map(extension => `*.${extension}`),
+            ...INSTRUCTION_FILE_NAMES
+        ];
+
+        return `**/{${patterns.join(',')}}`;
+    }
+
+    /**
+     * Builds the exclude glob from the `files.exclude` setting.
+     * Passing an explicit exclude to findFiles replaces the default excludes,
+     * so the setting is read here and dependency folders are added to it.
+     */
+    private buildExcludePattern(): string {
+        const filesExclude = vscode.workspace.getConfiguration('files').get<Record<string, unknown>>('exclude', {});
+        const patterns = [
+            ...Object.keys(filesExclude).filter(pattern => filesExclude[pattern] === true),
+            ...ALWAYS_EXCLUDED
+        ];
+
+        return `{${patterns.join(',')}}`;
+    }
+
+    /**
+     * Determines how text is taken from a file based on its extension.
+     */
+    private getExtractionMode(uri: vscode.Uri): ExtractionMode {
+        const extension = path.extname(uri.path).slice(1).toLowerCase();
+
+        if (C_STYLE_EXTENSIONS.includes(extension)) {
+            return 'cStyleComments';
+        }
+        if (HASH_COMMENT_EXTENSIONS.includes(extension)) {
+            return 'hashComments';
+        }
+        return 'document';
+    }
+
+    /**
+     * Extracts the text segments to scan. Documents and configuration are
+     * scanned paragraph by paragraph; source files are scanned for comments only.
+     *
+     * @param content The file content
+     * @param mode How text is taken from the file
+     * @returns Segments with their offsets in the file
+     */
+    private extractSegments(content: string, mode: ExtractionMode): TextSegment[] {
+        let regex: RegExp;
+
+        switch (mode) {
+            case 'cStyleComments':
+                regex = /\/\/[^\n]*|\/\*[\s\S]*?\*\//g;
+                break;
+            case 'hashComments':
+                // Line comments and Python docstrings
+                regex = /#[^\n]*|("""|''')[\s\S]*?\1/g;
+                break;
+            default:
+                // Paragraphs separated by blank lines
+                regex = /[^\n]+(?:\n(?![ \t]*\n)[^\n]*)*/g;
+                break;
+        }
+
+        const segments: TextSegment[] = [];
+        for (const match of content.matchAll(regex)) {
+            if (match[0].trim() !== '') {
+                segments.push({ text: match[0], offset: match.index ?? 0 });
+            }
+        }
+
+        return segments;
+    }
+
+    /**
+     * Creates a finding located at a character range of the file.
+     */
+    private createFinding(
+        uri: vscode.Uri,
+        filePath: string,
+        lineStarts: number[],
+        start: number,
+        end: number,
+        pattern: ThreatPattern
+    ): ScanFinding {
+        const startPosition = this.toPosition(lineStarts, start);
+        const endPosition = this.toPosition(lineStarts, end);
+
+        return {
+            filePath,
+            uri: uri.toString(),
+            line: startPosition.line,
+            column: startPosition.column,
+            endLine: endPosition.line,
+            endColumn: endPosition.column,
+            pattern
+        };
+    }
+
+    /**
+     * Computes the offset at which each line starts.
+     */
+    private computeLineStarts(content: string): number[] {
+        const lineStarts = [0];
+        for (let i = 0; i < content.length; i++) {
+            if (content[i] === '\n') {
+                lineStarts.push(i + 1);
+            }
+        }
+        return lineStarts;
+    }
+
+    /**
+     * Converts a character offset to a zero-based line and column.
+     */
+    private toPosition(lineStarts: number[], offset: number): { line: number; column: number } {
+        let low = 0;
+        let high = lineStarts.length - 1;
+
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return { line: low, column: offset - lineStarts[low] };
+    }
+
+    /**
+     * Returns the more severe of two threat levels.
+     */
+    private getMoreSevereThreatLevel(
+        level1: FileScanResult['threatLevel'],
+        level2: FileScanResult['threatLevel']
+    ): FileScanResult['threatLevel'] {
+        const severityOrder = { 'safe': 0, 'suspicious': 1, 'dangerous': 2 };
+        return severityOrder[level1] >= severityOrder[level2] ? level1 : level2;
+    }
+
+    /**
+     * Updates the largest file size included in scans.
+     * Requirements: 8.4 - Hot reloading support
+     *
+     * @param maxFileSize File size limit in kilobytes
+     */
+    public updateMaxFileSize(maxFileSize: number): void {
+        this.maxFileSize = maxFileSize;
+    }
+}
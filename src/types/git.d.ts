@@ -0,0 +1,73 @@
+/**
+ * Subset of the API exported by the built-in Git extension (`vscode.git`),
+ * limited to what Cloak uses. See extensions/git/src/api/git.d.ts in the
+ * VS Code repository for the full definition.
+ */
+
+import { Event, Uri } from 'vscode';
+
+export interface GitExtension {
+    readonly enabled: boolean;
+    readonly onDidChangeEnablement: Event<boolean>;
+    getAPI(version: 1): API;
+}
+
+export interface API {
+    readonly state: 'uninitialized' | 'initialized';
+    readonly onDidChangeState: Event<'uninitialized' | 'initialized'>;
+    readonly repositories: Repository[];
+    readonly onDidOpenRepository: Event<Repository>;
+    readonly onDidCloseRepository: Event<Repository>;
+
+    toGitUri(uri: Uri, ref: string): Uri;
+}
+
+export interface Repository {
+    readonly rootUri: Uri;
+    readonly state: RepositoryState;
+
+    diff(cached?: boolean): Promise<string>;
+    diffBetween(ref1: string, ref2: string): Promise<Change[]>;
+    diffBetween(ref1: string, ref2: string, path: string): Promise<string>;
+    log(options?: LogOptions): Promise<Commit[]>;
+}
+
+export interface RepositoryState {
+    readonly HEAD: Branch | undefined;
+    readonly indexChanges: Change[];
+    readonly onDidChange: Event<void>;
+}
+
+export interface Branch {
+    readonly name?: string;
+    readonly commit?: string;
+    readonly upstream?: UpstreamRef;
+    readonly ahead?: number;
+    readonly behind?: number;
+}
+
+export interface UpstreamRef {
+    readonly remote: string;
+    readonly name: string;
+    readonly commit?: string;
+}
+
+export interface Change {
+    readonly uri: Uri;
+    readonly originalUri: Uri;
+    readonly renameUri: Uri | undefined;
+    readonly status: number;
+}
+
+export interface Commit {
+    readonly hash: string;
+    readonly message: string;
+    readonly parents: string[];
+    readonly authorName?: string;
+}
+
+export interface LogOptions {
+    readonly maxEntries?: number;
+    readonly path?: string;
+    readonly range?: string;
+}
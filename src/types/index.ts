@@ -11,6 +11,24 @@ export interface CloakExtensionConfig {
     enableLogging: boolean;
     maxPromptLength: number;
     timeout: number;
+    targetModelVendor: string;
+    targetModelFamily: string;
+    conversationWindow: number;
+    enableResponseFilter: boolean;
+    redactSecrets: boolean;
+    sanitizePrompts: boolean;
+    maxConcurrentAnalyses: number;
+    oversizedPromptPolicy: OversizedPromptPolicy;
+    scanMaxFileSize: number;
+    enableDiagnostics: boolean;
+    watchInstructionFiles: boolean;
+    autoGitScan: boolean;
+    sensitiveKeywords: string[];
+    languagePacks: LanguagePackId[];
+    exfiltrationAllowedDomains: string[];
+    exfiltrationBlockedDomains: string[];
+    piiActions: Record<PiiType, PiiAction>;
+    piiCountries: PiiCountry[];
 }
 
 /**
@@ -22,6 +40,32 @@ export interface InterceptedPrompt {
     timestamp: Date;
     source: 'chat' | 'command';
     metadata: PromptMetadata;
+    conversation?: ConversationTurn[];
+    references?: PromptReference[];
+}
+
+/**
+ * Scheduling class of a queued prompt.
+ * Interactive chat prompts are processed before command and batch work.
+ */
+export type PromptPriority = 'interactive' | 'command' | 'batch';
+
+/**
+ * Earlier user turn of a chat conversation, analyzed together with the current prompt
+ */
+export interface ConversationTurn {
+    turn: number;
+    content: string;
+}
+
+/**
+ * Content of a chat reference (#file, selection, ...) attached to a prompt.
+ * Referenced content is untrusted input and is analyzed on its own.
+ */
+export interface PromptReference {
+    id: string;
+    label: string;
+    content: string;
 }
 
 /**
@@ -42,27 +86,297 @@ export interface SecurityAnalysis {
     detectedPatterns: ThreatPattern[];
     reasoning: string;
     processingTime: number;
+    contributingTurns?: number[];
+    referenceAnalyses?: ReferenceAnalysis[];
+    analyzedWindows?: number;
+    oversized?: boolean;
+    signaturePacks?: SignaturePackVersion[];
+}
+
+/**
+ * Security analysis result for a single chat reference
+ */
+export interface ReferenceAnalysis {
+    referenceId: string;
+    label: string;
+    threatLevel: 'safe' | 'suspicious' | 'dangerous';
+    confidence: number;
+    reasoning: string;
 }
 
 /**
  * Detected threat pattern details
  */
 export interface ThreatPattern {
-    type: 'rule_bypass' | 'secret_extraction' | 'command_injection' | 'role_manipulation';
+    type: 'rule_bypass' | 'secret_extraction' | 'command_injection' | 'role_manipulation' | 'conversation_manipulation' | 'hidden_unicode' | 'mixed_script' | 'hidden_instruction' | 'exfiltration';
     pattern: string;
     severity: 'low' | 'medium' | 'high';
     description: string;
+    turns?: number[];
+    source?: string;
+    location?: TextLocation;
+    decodingChain?: DecodingStep[];
+    normalizedText?: string;
+    ruleId?: string;
+    signaturePack?: SignaturePackVersion;
+}
+
+/**
+ * Version of a signature pack, recorded with the detections its rules made
+ */
+export interface SignaturePackVersion {
+    name: string;
+    version: string;
+    checksum: string;
+}
+
+/**
+ * Manifest of a signature pack: a curated bundle of detection rules
+ */
+export interface SignaturePackManifest {
+    name: string;
+    version: string;
+    author: string;
+    description?: string;
+    changelog: SignaturePackChangelogEntry[];
+}
+
+/**
+ * Changes made in one version of a signature pack
+ */
+export interface SignaturePackChangelogEntry {
+    version: string;
+    changes: string[];
+}
+
+/**
+ * Decoding or transformation step that exposed a finding in obfuscated text
+ */
+export type DecodingStep = 'base64' | 'hex' | 'url' | 'html_entities' | 'rot13' | 'reversed' | 'leetspeak';
+
+/**
+ * Character range of a finding in the analyzed text (prompt content, or the
+ * reference content when the finding has a source), end exclusive
+ */
+export interface TextLocation {
+    start: number;
+    end: number;
+}
+
+/**
+ * How prompts too large for chunked analysis are handled:
+ * blocked, sent to the user for confirmation, or checked with local pattern detection only
+ */
+export type OversizedPromptPolicy = 'block' | 'warn' | 'localOnly';
+
+/**
+ * Built-in packs of injection patterns in languages other than English
+ */
+export type LanguagePackId = 'es' | 'de' | 'fr' | 'pt' | 'ru' | 'zh' | 'ja';
+
+/**
+ * Threat pattern found by a file or git scan, located in a file.
+ * Lines and columns are zero-based.
+ */
+export interface ScanFinding {
+    filePath: string;
+    uri: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    pattern: ThreatPattern;
+    commitSha?: string;
+}
+
+/**
+ * Scan result of a single file. Git scans set the commit the scanned lines
+ * were added in; findings in staged changes have no commit.
+ */
+export interface FileScanResult {
+    filePath: string;
+    uri: string;
+    threatLevel: 'safe' | 'suspicious' | 'dangerous';
+    findings: ScanFinding[];
+    reasoning?: string;
+    commitSha?: string;
+}
+
+/**
+ * Report of a workspace scan. Only files with findings are listed in `results`.
+ */
+export interface WorkspaceScanReport {
+    startedAt: Date;
+    duration: number;
+    filesScanned: number;
+    filesSkipped: number;
+    usedSlm: boolean;
+    cancelled: boolean;
+    results: FileScanResult[];
+}
+
+/**
+ * Labeled sample prompt of a rule test corpus. `rules` narrows the
+ * expectation to the listed rule ids or categories. Index and line are
+ * zero-based.
+ */
+export interface RuleTestSample {
+    index: number;
+    text: string;
+    expect: 'match' | 'no_match';
+    name?: string;
+    rules?: string[];
+    line?: number;
+}
+
+/**
+ * Match of a rule in a sample, with its span in the sample text
+ */
+export interface RuleTestMatch {
+    rule: string;
+    type: ThreatPattern['type'];
+    start: number;
+    end: number;
+    text: string;
+    signaturePack?: SignaturePackVersion;
+}
+
+/**
+ * Outcome of a single sample: the rules that fired, the expected rules that
+ * did not (missed detections) and the rules that should not have fired
+ * (false positives)
+ */
+export interface RuleTestResult {
+    sample: RuleTestSample;
+    matches: RuleTestMatch[];
+    missed: string[];
+    falsePositives: string[];
+    passed: boolean;
+}
+
+/**
+ * Report of a rule test run over a corpus
+ */
+export interface RuleTestReport {
+    file: string;
+    ranAt: Date;
+    ruleCount: number;
+    results: RuleTestResult[];
+    errors: RuleTestCorpusError[];
 }
 
 /**
- * Security decision made by the Gatekeeper
+ * Problem in a rule test corpus; the sample is skipped. Lines are zero-based.
+ */
+export interface RuleTestCorpusError {
+    message: string;
+    line?: number;
+}
+
+/**
+ * Security decision made by the Gatekeeper.
+ * A sanitize decision forwards the rewritten prompt in `sanitization` instead
+ * of the original.
  */
 export interface SecurityDecision {
-    action: 'allow' | 'block' | 'warn';
+    action: 'allow' | 'block' | 'warn' | 'sanitize';
     reason: string;
     originalPrompt: InterceptedPrompt;
     analysis: SecurityAnalysis;
     userOverride?: boolean;
+    flaggedReferences?: string[];
+    piiFindings?: PiiFinding[];
+    sanitization?: PromptSanitization;
+}
+
+/**
+ * Change made to a prompt by the sanitizer
+ * - removed: a span with a threat pattern was replaced with `[REMOVED:<type>]`
+ * - stripped: invisible Unicode characters were deleted
+ * - redacted: a secret was replaced with `[REDACTED:<type>]`
+ */
+export interface SanitizationChange {
+    kind: 'removed' | 'stripped' | 'redacted';
+    type: string;
+    source?: string;
+}
+
+/**
+ * Prompt rewritten by the sanitizer, with hashes of the original and
+ * sanitized content to verify the hand-off
+ */
+export interface PromptSanitization {
+    prompt: InterceptedPrompt;
+    changes: SanitizationChange[];
+    diff: string;
+    originalHash: string;
+    sanitizedHash: string;
+}
+
+/**
+ * Finding in model output detected by the response filter
+ */
+export interface ResponseFinding {
+    type: 'secret_leak' | 'system_prompt_disclosure' | 'dangerous_command' | 'exfiltration_link';
+    action: 'hold' | 'redact' | 'annotate';
+    pattern: string;
+    severity: 'low' | 'medium' | 'high';
+    description: string;
+}
+
+/**
+ * Kind of credential found in an outbound prompt by the secret scanner
+ */
+export type SecretType =
+    | 'aws_access_key'
+    | 'aws_secret_key'
+    | 'github_token'
+    | 'gitlab_token'
+    | 'slack_token'
+    | 'api_secret_key'
+    | 'private_key'
+    | 'jwt'
+    | 'connection_string'
+    | 'generic_secret';
+
+/**
+ * Secret found in an outbound prompt, located by offsets only.
+ * The secret value itself is never kept.
+ */
+export interface SecretFinding {
+    type: SecretType;
+    start: number;
+    end: number;
+}
+
+/**
+ * Kind of personal data found in an outbound prompt by the PII detector
+ */
+export type PiiType = 'email' | 'phone' | 'national_id' | 'iban' | 'credit_card';
+
+/**
+ * What happens to a prompt containing a kind of personal data
+ * - allow: the data is sent as it is and not reported
+ * - warn: the prompt is only sent after the user confirms it
+ * - redact: the data is replaced with a placeholder before forwarding
+ * - block: the prompt is blocked
+ */
+export type PiiAction = 'allow' | 'warn' | 'redact' | 'block';
+
+/**
+ * Countries whose national ID numbers are detected
+ */
+export type PiiCountry = 'us' | 'uk' | 'ca' | 'fr' | 'es' | 'it' | 'nl';
+
+/**
+ * Personal data found in an outbound prompt, located by offsets only.
+ * The value itself is never kept.
+ */
+export interface PiiFinding {
+    type: PiiType;
+    action: PiiAction;
+    start: number;
+    end: number;
 }
 
 /**
@@ -81,13 +395,19 @@ export interface ShieldStatus {
 export interface SecurityEvent {
     id: string;
     timestamp: Date;
-    eventType: 'analysis' | 'block' | 'allow' | 'override' | 'error';
+    eventType: 'analysis' | 'block' | 'allow' | 'override' | 'error' | 'response_filter' | 'instruction_file' | 'git_scan' | 'secret_redaction' | 'sanitize';
     promptHash: string;
     threatLevel: string;
     confidence: number;
     decision: string;
     userOverride?: boolean;
     processingTime: number;
+    findingTypes?: string[];
+    piiCounts?: Partial<Record<PiiType, number>>;
+    sanitizedHash?: string;
+    signaturePacks?: string[];
+    filePath?: string;
+    commitSha?: string;
 }
 
 /**
@@ -128,7 +448,7 @@ export interface StoredAnalysisResult {
     timestamp: Date;
     promptHash: string;
     analysis: SecurityAnalysis;
-    decision: 'allow' | 'block' | 'warn';
+    decision: SecurityDecision['action'];
 }
 
 /**
@@ -185,6 +505,15 @@ export interface MemoryUsage {
     percentUsed: number;
 }
 
+/**
+ * Queue wait time statistics of a single priority class
+ */
+export interface PriorityQueueStats {
+    processed: number;
+    averageWaitTime: number;
+    maxWaitTime: number;
+}
+
 /**
  * Queue statistics for monitoring
  */
@@ -194,6 +523,8 @@ export interface QueueStats {
     totalProcessed: number;
     averageWaitTime: number;
     droppedRequests: number;
+    coalescedRequests: number;
+    byPriority: Record<PromptPriority, PriorityQueueStats>;
 }
 
 /**
@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import { ScanFinding, WorkspaceScanReport } from '../types';
+
+/**
+ * Quick pick item that navigates to a scan finding
+ */
+interface FindingItem extends vscode.QuickPickItem {
+    finding?: ScanFinding;
+}
+
+/**
+ * ScanReportUI shows the findings of a file scan as a navigable list.
+ * Selecting a finding opens the file at the flagged range while the list
+ * stays open, so findings can be reviewed one after another.
+ */
+export class ScanReportUI implements vscode.Disposable {
+    private quickPick: vscode.QuickPick<FindingItem> | undefined;
+
+    /**
+     * Shows the findings of a scan report.
+     *
+     * @param report The scan report to show
+     * @param title Title of the list
+     */
+    public show(report: WorkspaceScanReport, title: string = '🛡️ Cloak Workspace Scan'): void {
+        this.quickPick?.dispose();
+
+        const quickPick = vscode.window.createQuickPick<FindingItem>();
+        quickPick.title = title;
+        quickPick.placeholder = this.buildSummary(report);
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.ignoreFocusOut = true;
+        quickPick.items = this.buildItems(report);
+
+        quickPick.onDidAccept(() => {
+            const finding = quickPick.selectedItems[0]?.finding;
+            if (finding) {
+                this.openFinding(finding);
+            }
+        });
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            if (this.quickPick === quickPick) {
+                this.quickPick = undefined;
+            }
+        });
+
+        this.quickPick = quickPick;
+        quickPick.show();
+    }
+
+    /**
+     * Builds a one-line summary of the report.
+     */
+    public buildSummary(report: WorkspaceScanReport): string {
+        const findingCount = report.results.reduce((count, result) => count + result.findings.length, 0);
+        const parts = [
+            `${findingCount} finding(s) in ${report.results.length} file(s)`,
+            `${report.filesScanned} scanned`,
+            `${report.filesSkipped} skipped`
+        ];
+
+        if (report.usedSlm) {
+            parts.push('with SLM');
+        }
+        if (report.cancelled) {
+            parts.push('cancelled');
+        }
+
+        return parts.join(', ');
+    }
+
+    /**
+     * Builds the list items, grouped by file with the most severe files first.
+     */
+    private buildItems(report: WorkspaceScanReport): FindingItem[] {
+        const severityOrder = { 'dangerous': 0, 'suspicious': 1, 'safe': 2 };
+        const results = [...report.results].sort(
+            (a, b) => severityOrder[a.threatLevel] - severityOrder[b.threatLevel] || a.filePath.localeCompare(b.filePath)
+        );
+
+        const items: FindingItem[] = [];
+        for (const result of results) {
+            const commit = result.commitSha ? ` @ ${result.commitSha.substring(0, 7)}` : '';
+            items.push({
+                label: `${result.filePath}${commit} (${result.threatLevel})`,
+                kind: vscode.QuickPickItemKind.Separator
+            });
+
+            if (result.findings.length === 0 && result.reasoning) {
+                items.push({
+                    label: '$(info) SLM classification',
+                    detail: result.reasoning
+                });
+            }
+
+            for (const finding of result.findings) {
+                const icon = finding.pattern.severity === 'high' ? '$(error)' : '$(warning)';
+                items.push({
+                    label: `${icon} ${finding.pattern.type}`,
+                    description: `${finding.filePath}:${finding.line + 1}:${finding.column + 1} · ${finding.pattern.severity}`,
+                    detail: `${finding.pattern.description} — "${this.truncate(finding.pattern.pattern, 100)}"`,
+                    finding
+                });
+            }
+        }
+
+        return items;
+    }
+
+    /**
+     * Opens a file and selects the range of a finding.
+     */
+    private async openFinding(finding: ScanFinding): Promise<void> {
+        const range = new vscode.Range(finding.line, finding.column, finding.endLine, finding.endColumn);
+
+        try {
+            await vscode.window.showTextDocument(vscode.Uri.parse(finding.uri), {
+                selection: range,
+                preserveFocus: true,
+                preview: true
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `Could not open ${finding.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Shortens text for display, collapsing whitespace.
+     */
+    private truncate(text: string, maxLength: number): string {
+        const singleLine = text.replace(/\s+/g, ' ').trim();
+        return singleLine.length > maxLength ? `${singleLine.substring(0, maxLength - 1)}…` : singleLine;
+    }
+
+    /**
+     * Disposes of the open report.
+     */
+    public dispose(): void {
+        this.quickPick?.dispose();
+        this.quickPick = undefined;
+    }
+}
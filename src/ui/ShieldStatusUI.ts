@@ -70,6 +70,11 @@ export class ShieldStatusUI implements vscode.Disposable {
                 description: 'Manually analyze a prompt for threats',
                 detail: 'cloak.analyzePrompt'
             },
+            {
+                label: '$(file-submodule) Scan Workspace',
+                description: 'Scan workspace files for prompt injection',
+                detail: 'cloak.scanWorkspace'
+            },
             {
                 label: '$(pulse) Performance',
                 description: 'View performance statistics',
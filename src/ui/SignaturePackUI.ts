@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import { CustomRuleError } from '../services/CustomRuleLoader';
+import { InstalledSignaturePack, SignaturePackService, compareVersions } from '../services/SignaturePackService';
+
+/**
+ * Quick pick item for an installed signature pack
+ */
+interface PackItem extends vscode.QuickPickItem {
+    pack: InstalledSignaturePack;
+}
+
+/**
+ * SignaturePackUI provides the commands to import, list, enable, disable and
+ * remove signature packs. Importing shows the manifest and the changelog
+ * before a pack is installed, so its rules are only trusted after review.
+ */
+export class SignaturePackUI {
+    constructor(private readonly service: SignaturePackService) {}
+
+    /**
+     * Asks for a pack file, verifies it and installs it after confirmation.
+     */
+    public async importPack(): Promise<void> {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Import Signature Pack',
+            filters: { 'Signature packs': ['json', 'yaml', 'yml'] }
+        });
+        if (!uris || uris.length === 0) {
+            return;
+        }
+
+        const { pack, errors } = await this.service.readPack(uris[0]);
+        if (!pack) {
+            await vscode.window.showErrorMessage(
+                `🛡️ Cloak: Cannot import ${uris[0].fsPath}. The pack was rejected with ${errors.length} problem(s).`,
+                { modal: true, detail: errors.map(error => this.formatError(error)).join('\n') }
+            );
+            return;
+        }
+
+        const { manifest } = pack;
+        const installed = this.service.getPack(manifest.name);
+        if (installed?.checksum === pack.checksum) {
+            vscode.window.showInformationMessage(`🛡️ Cloak: ${manifest.name} ${manifest.version} is already installed.`);
+            return;
+        }
+
+        let question = `Import signature pack ${manifest.name} ${manifest.version} by ${manifest.author} (${pack.rules.length} rule(s))?`;
+        let changes = manifest.changelog.filter(entry => entry.version === manifest.version);
+        if (installed) {
+            const comparison = compareVersions(manifest.version, installed.manifest.version);
+            const verb = comparison > 0 ? 'Upgrade' : comparison < 0 ? 'Downgrade' : 'Replace';
+            question = `${verb} signature pack ${manifest.name} from ${installed.manifest.version} to ${manifest.version}?` +
+                (comparison === 0 ? ' The installed pack has the same version but different content.' : '');
+            if (comparison > 0) {
+                changes = manifest.changelog.filter(entry => compareVersions(entry.version, installed.manifest.version) > 0);
+            }
+        }
+
+        const detail = [
+            ...(manifest.description ? [manifest.description, ''] : []),
+            ...changes.flatMap(entry => [`${entry.version}:`, ...entry.changes.map(change => `  • ${change}`)]),
+            '',
+            `Checksum: ${pack.checksum}`
+        ].join('\n');
+        const confirm = installed ? 'Replace' : 'Import';
+        const selection = await vscode.window.showWarningMessage(question, { modal: true, detail }, confirm);
+        if (selection !== confirm) {
+            return;
+        }
+
+        const result = await this.service.installPack(pack, uris[0].fsPath);
+        vscode.window.showInformationMessage(
+            `🛡️ Cloak: Installed ${result.manifest.name} ${result.manifest.version} ` +
+            `(${result.ruleCount} rule(s), ${result.enabled ? 'enabled' : 'disabled'}).`
+        );
+    }
+
+    /**
+     * Lists the installed packs; selecting one shows its manifest and changelog.
+     */
+    public async showPacks(): Promise<void> {
+        const packs = this.service.listPacks();
+        if (packs.length === 0) {
+            const selection = await vscode.window.showInformationMessage('🛡️ Cloak: No signature packs are installed.', 'Import Pack');
+            if (selection === 'Import Pack') {
+                await this.importPack();
+            }
+            return;
+        }
+
+        const item = await vscode.window.showQuickPick(this.buildItems(packs), {
+            title: '🛡️ Cloak Signature Packs',
+            placeHolder: 'Select a pack to show its manifest and changelog',
+            matchOnDescription: true
+        });
+        if (!item) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument({ content: this.describePack(item.pack), language: 'markdown' });
+        await vscode.window.showTextDocument(document);
+    }
+
+    /**
+     * Enables the selected packs and disables the others.
+     */
+    public async togglePacks(): Promise<void> {
+        const packs = this.service.listPacks();
+        if (packs.length === 0) {
+            vscode.window.showInformationMessage('🛡️ Cloak: No signature packs are installed.');
+            return;
+        }
+
+        const items = this.buildItems(packs).map(item => ({ ...item, picked: item.pack.enabled }));
+        const selected = await vscode.window.showQuickPick(items, {
+            title: '🛡️ Cloak: Enable or Disable Signature Packs',
+            placeHolder: 'Checked packs are enabled',
+            canPickMany: true
+        });
+        if (!selected) {
+            return;
+        }
+
+        const enabled = new Set(selected.map(item => item.pack.manifest.name));
+        const toEnable = packs.filter(pack => !pack.enabled && enabled.has(pack.manifest.name)).map(pack => pack.manifest.name);
+        const toDisable = packs.filter(pack => pack.enabled && !enabled.has(pack.manifest.name)).map(pack => pack.manifest.name);
+        if (toEnable.length === 0 && toDisable.length === 0) {
+            return;
+        }
+
+        await this.service.setEnabled(toEnable, true);
+        await this.service.setEnabled(toDisable, false);
+
+        const parts = [
+            ...(toEnable.length > 0 ? [`enabled ${toEnable.join(', ')}`] : []),
+            ...(toDisable.length > 0 ? [`disabled ${toDisable.join(', ')}`] : [])
+        ];
+        vscode.window.showInformationMessage(`🛡️ Cloak: Signature packs ${parts.join('; ')}.`);
+    }
+
+    /**
+     * Removes a pack after confirmation.
+     */
+    public async removePack(): Promise<void> {
+        const packs = this.service.listPacks();
+        if (packs.length === 0) {
+            vscode.window.showInformationMessage('🛡️ Cloak: No signature packs are installed.');
+            return;
+        }
+
+        const item = await vscode.window.showQuickPick(this.buildItems(packs), {
+            title: '🛡️ Cloak: Remove Signature Pack',
+            placeHolder: 'Select the pack to remove'
+        });
+        if (!item) {
+            return;
+        }
+
+        const { manifest } = item.pack;
+        const selection = await vscode.window.showWarningMessage(
+            `Remove signature pack ${manifest.name} ${manifest.version}? Its ${item.pack.ruleCount} rule(s) will no longer be matched.`,
+            { modal: true },
+            'Remove'
+        );
+        if (selection === 'Remove' && await this.service.removePack(manifest.name)) {
+            vscode.window.showInformationMessage(`🛡️ Cloak: Removed ${manifest.name} ${manifest.version}.`);
+        }
+    }
+
+    /**
+     * Builds the list items for installed packs.
+     */
+    private buildItems(packs: InstalledSignaturePack[]): PackItem[] {
+        return packs.map(pack => ({
+            label: `${pack.enabled ? '$(pass-filled)' : '$(circle-slash)'} ${pack.manifest.name}`,
+            description: `${pack.manifest.version} · ${pack.manifest.author}`,
+            detail: `${pack.ruleCount} rule(s) · ${pack.enabled ? 'enabled' : 'disabled'} · ` +
+                `imported ${pack.importedAt.toLocaleDateString()} · ${pack.checksum.substring(0, 19)}…`,
+            pack
+        }));
+    }
+
+    /**
+     * Describes a pack as markdown: manifest, checksum and full changelog.
+     */
+    private describePack(pack: InstalledSignaturePack): string {
+        const { manifest } = pack;
+        const lines = [
+            `# ${manifest.name} ${manifest.version}`,
+            '',
+            ...(manifest.description ? [manifest.description, ''] : []),
+            `- **Author:** ${manifest.author}`,
+            `- **Rules:** ${pack.ruleCount}`,
+            `- **Status:** ${pack.enabled ? 'enabled' : 'disabled'}`,
+            `- **Imported:** ${pack.importedAt.toLocaleString()} from \`${pack.source}\``,
+            `- **Checksum:** \`${pack.checksum}\``,
+            '',
+            '## Changelog',
+            ''
+        ];
+        for (const entry of manifest.changelog) {
+            lines.push(`### ${entry.version}`, '', ...entry.changes.map(change => `- ${change}`), '');
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * Formats a problem of a pack file for an error message.
+     */
+    private formatError(error: CustomRuleError): string {
+        const rule = error.rule ? `Rule ${error.rule}: ` : '';
+        const line = error.line !== undefined && error.line > 0 ? ` (line ${error.line + 1})` : '';
+        return `${rule}${error.message}${line}`;
+    }
+}
@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import { ThreatPattern } from '../types';
+import { WorkspaceScanner } from '../services/WorkspaceScanner';
+import { SecurityService } from '../services/SecurityService';
+
+/**
+ * Diagnostic that carries the threat pattern it was created for
+ */
+export class ThreatDiagnostic extends vscode.Diagnostic {
+    constructor(range: vscode.Range, public readonly pattern: ThreatPattern) {
+        super(
+            range,
+            `${pattern.description} (${pattern.severity} severity): "${ThreatDiagnostic.shorten(pattern.pattern)}"`,
+            ThreatDiagnostic.toDiagnosticSeverity(pattern.severity)
+        );
+        this.source = 'Cloak';
+        this.code = pattern.type;
+    }
+
+    private static toDiagnosticSeverity(severity: ThreatPattern['severity']): vscode.DiagnosticSeverity {
+        switch (severity) {
+            case 'high':
+                return vscode.DiagnosticSeverity.Error;
+            case 'medium':
+                return vscode.DiagnosticSeverity.Warning;
+            default:
+                return vscode.DiagnosticSeverity.Information;
+        }
+    }
+
+    private static shorten(text: string): string {
+        const singleLine = text.replace(/\s+/g, ' ').trim();
+        return singleLine.length > 80 ? `${singleLine.substring(0, 79)}…` : singleLine;
+    }
+}
+
+/**
+ * ThreatDiagnosticsUI publishes prompt-injection findings in open documents
+ * to the Problems panel and explains them on hover.
+ *
+ * Responsibilities:
+ * - Scan open documents with local threat pattern detection
+ * - Re-scan on edit with debouncing
+ * - Show a hover that explains the risk of each finding
+ */
+export class ThreatDiagnosticsUI implements vscode.Disposable, vscode.HoverProvider {
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private disposables: vscode.Disposable[] = [];
+    private pendingScans: Map<string, NodeJS.Timeout> = new Map();
+    private documentDiagnostics: Map<string, ThreatDiagnostic[]> = new Map();
+    private enabled: boolean = false;
+
+    constructor(
+        private readonly scanner: WorkspaceScanner,
+        private readonly debounceMs: number = 500
+    ) {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('cloak');
+
+        this.disposables.push(
+            this.diagnosticCollection,
+            vscode.workspace.onDidOpenTextDocument(document => this.scanDocument(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleScan(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.clearDocument(document)),
+            vscode.languages.registerHoverProvider([{ scheme: 'file' }, { scheme: 'untitled' }], this)
+        );
+    }
+
+    /**
+     * Enables or disables diagnostics. Enabling scans all open documents,
+     * disabling removes all published diagnostics.
+     *
+     * @param enabled Whether diagnostics are published
+     */
+    public setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+
+        if (enabled) {
+            for (const document of vscode.workspace.textDocuments) {
+                this.scanDocument(document);
+            }
+        } else {
+            this.cancelPendingScans();
+            this.documentDiagnostics.clear();
+            this.diagnosticCollection.clear();
+        }
+    }
+
+    /**
+     * Checks if diagnostics are published.
+     */
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Schedules a scan after the document stopped changing for the debounce delay.
+     */
+    private scheduleScan(document: vscode.TextDocument): void {
+        if (!this.enabled) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const pending = this.pendingScans.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        this.pendingScans.set(key, setTimeout(() => {
+            this.pendingScans.delete(key);
+            this.scanDocument(document);
+        }, this.debounceMs));
+    }
+
+    /**
+     * Scans a document and publishes its findings.
+     */
+    private scanDocument(document: vscode.TextDocument): void {
+        if (!this.enabled || !this.shouldScan(document)) {
+            return;
+        }
+
+        const result = this.scanner.scanContent(
+            document.getText(),
+            document.uri,
+            vscode.workspace.asRelativePath(document.uri)
+        );
+
+        const diagnostics = result.findings.map(finding => new ThreatDiagnostic(
+            new vscode.Range(finding.line, finding.column, finding.endLine, finding.endColumn),
+            finding.pattern
+        ));
+
+        this.documentDiagnostics.set(document.uri.toString(), diagnostics);
+        this.diagnosticCollection.set(document.uri, diagnostics);
+    }
+
+    /**
+     * Checks if a document is covered by diagnostics.
+     */
+    private shouldScan(document: vscode.TextDocument): boolean {
+        if (document.uri.scheme !== 'file' && document.uri.scheme !== 'untitled') {
+            return false;
+        }
+
+        // Treat untitled markdown and plain text like documents on disk
+        const scannable = this.scanner.isScannable(document.uri) ||
+            (document.isUntitled && ['markdown', 'plaintext'].includes(document.languageId));
+        if (!scannable) {
+            return false;
+        }
+
+        return document.getText().length <= this.scanner.getMaxFileSize() * 1024;
+    }
+
+    /**
+     * Removes the diagnostics of a closed document.
+     */
+    private clearDocument(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        const pending = this.pendingScans.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingScans.delete(key);
+        }
+
+        this.documentDiagnostics.delete(key);
+        this.diagnosticCollection.delete(document.uri);
+    }
+
+    /**
+     * Explains the risk of findings under the cursor.
+     */
+    public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const diagnostics = (this.documentDiagnostics.get(document.uri.toString()) ?? [])
+            .filter(diagnostic => diagnostic.range.contains(position));
+
+        if (diagnostics.length === 0) {
+            return undefined;
+        }
+
+        const markdown = new vscode.MarkdownString();
+        for (const diagnostic of diagnostics) {
+            const { pattern } = diagnostic;
+            const rule = pattern.ruleId ? `, rule \`${pattern.ruleId}\`` : '';
+            markdown.appendMarkdown(`**🛡️ Cloak: ${pattern.type}** (${pattern.severity} severity${rule})\n\n`);
+            markdown.appendMarkdown(`${pattern.description}. ${SecurityService.getThreatTypeExplanation(pattern.type)}\n\n`);
+            markdown.appendMarkdown('AI assistants that read this file may follow this text as an instruction. ' +
+                'Remove it or make sure no agent is given this file as context.\n\n');
+        }
+
+        return new vscode.Hover(markdown, diagnostics[0].range);
+    }
+
+    /**
+     * Cancels all debounced scans.
+     */
+    private cancelPendingScans(): void {
+        for (const timeout of this.pendingScans.values()) {
+            clearTimeout(timeout);
+        }
+        this.pendingScans.clear();
+    }
+
+    /**
+     * Disposes of the diagnostic collection and listeners.
+     */
+    public dispose(): void {
+        this.cancelPendingScans();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+        this.disposables = [];
+    }
+}
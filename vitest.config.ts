@@ -1,6 +1,13 @@
+import * as path from 'path';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      // The extension host API only exists inside VS Code
+      vscode: path.resolve(__dirname, 'src/__mocks__/vscode.ts')
+    }
+  },
   test: {
     globals: true,
     environment: 'node',
@@ -9,7 +16,7 @@ export default defineConfig({
       provider: 'v8',
       reporter: ['text', 'json', 'html'],
       include: ['src/**/*.ts'],
-      exclude: ['src/**/*.test.ts', 'src/**/*.d.ts']
+      exclude: ['src/**/*.test.ts', 'src/**/*.d.ts', 'src/__mocks__/**']
     },
     testTimeout: 30000
   }